@@ -0,0 +1,217 @@
+import { PublicKey } from '@solana/web3.js'
+import {
+  canFinalize,
+  FundingMeClient,
+  getStatusVariant,
+  MintData,
+  ProjectData,
+} from '../../fundingme_frontend/src/lib/anchor/client'
+import { ProjectStatusVariant } from '../../fundingme_frontend/src/lib/anchor/types'
+import { parseAmount, SOL_DECIMALS } from '../../fundingme_frontend/src/lib/amount'
+import { serializeMint, serializeProject } from '../../fundingme_frontend/src/lib/api/serialize'
+import { WalletSession } from './config'
+import { describeProject, formatProjectAmount, formatProjectRow, getDecimals } from './format'
+
+// What a command prints: `data` with --json, in the JSON shapes of the REST API, `lines` otherwise
+export type CommandOutput = {
+  data: unknown
+  lines: string[]
+}
+
+async function loadProject(client: FundingMeClient, address: PublicKey): Promise<ProjectData> {
+  const [project] = await client.fetchProjectsByAddress([address])
+  if (!project) {
+    throw new Error(`No project at ${address.toBase58()}, it may have been withdrawn or closed`)
+  }
+  return project
+}
+
+async function loadMint(client: FundingMeClient, project: ProjectData): Promise<MintData | null> {
+  return project.mint ? client.fetchMint(project.mint) : null
+}
+
+function toAmount(input: string, decimals: number): bigint {
+  try {
+    return parseAmount(input, decimals)
+  } catch (error) {
+    throw new Error(`Invalid amount "${input}": ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+// Project state after a transaction, in both output formats
+async function describeResult(
+  client: FundingMeClient,
+  address: PublicKey,
+  summary: string,
+  signature: string,
+): Promise<CommandOutput> {
+  const project = await loadProject(client, address)
+  const mint = await loadMint(client, project)
+  return {
+    data: { signature, project: serializeProject(project) },
+    lines: [summary, `Signature:  ${signature}`, '', ...describeProject(project, mint)],
+  }
+}
+
+export async function createProject(
+  { client, wallet }: WalletSession,
+  name: string,
+  target: string,
+  options: { deadline?: Date; mint?: PublicKey },
+): Promise<CommandOutput> {
+  const mint = options.mint ? await client.fetchMint(options.mint) : null
+  const financialTarget = toAmount(target, mint?.decimals ?? SOL_DECIMALS)
+  const deadline = options.deadline ?? null
+
+  const { signature, projectId } = mint
+    ? await client.createTokenProject(wallet, name, mint.address, financialTarget, deadline)
+    : await client.createProject(wallet, name, financialTarget, deadline)
+
+  const [address] = client.getProjectPDA(wallet, projectId)
+  return describeResult(client, address, `Created project ${projectId} at ${address.toBase58()}`, signature)
+}
+
+export async function donate(
+  { client, wallet }: WalletSession,
+  address: PublicKey,
+  input: string,
+): Promise<CommandOutput> {
+  const project = await loadProject(client, address)
+  const mint = await loadMint(client, project)
+  const amount = toAmount(input, getDecimals(project, mint))
+
+  const signature = project.mint
+    ? await client.donateToken(wallet, project.owner, project.projectId, amount)
+    : await client.donate(wallet, project.owner, project.projectId, amount)
+
+  return describeResult(client, address, `Donated ${formatProjectAmount(project, mint, amount)}`, signature)
+}
+
+export async function getStatus(client: FundingMeClient, address: PublicKey): Promise<CommandOutput> {
+  const project = await loadProject(client, address)
+  const mint = await loadMint(client, project)
+  return {
+    data: { project: serializeProject(project), mint: mint && serializeMint(mint) },
+    lines: describeProject(project, mint),
+  }
+}
+
+// Closes the project as Success or Failed, whichever its balance allows. The owner can close at any time, other wallets
+// finalize once the deadline has passed. A failed project whose donators are all refunded is deleted instead.
+export async function closeProject({ client, wallet }: WalletSession, address: PublicKey): Promise<CommandOutput> {
+  const project = await loadProject(client, address)
+  const { owner, projectId } = project
+
+  if (getStatusVariant(project.status) === 'failed') {
+    const signature = project.mint
+      ? await client.closeFailedTokenProject(wallet, owner, projectId)
+      : await client.closeFailedProject(wallet, owner, projectId)
+    return {
+      data: { signature, project: null },
+      lines: [`Deleted failed project ${address.toBase58()}`, `Signature:  ${signature}`],
+    }
+  }
+
+  const signature =
+    !owner.equals(wallet) && canFinalize(project)
+      ? await client.finalizeProject(wallet, owner, projectId)
+      : await client.closeProject(wallet, owner, projectId)
+  return describeResult(client, address, `Closed project ${address.toBase58()}`, signature)
+}
+
+// Sends the funds of a successful project to its owner and closes the project account
+export async function withdraw({ client, wallet }: WalletSession, address: PublicKey): Promise<CommandOutput> {
+  const project = await loadProject(client, address)
+  const mint = await loadMint(client, project)
+
+  const signature = project.mint
+    ? await client.withdrawToken(wallet, project.owner, project.projectId)
+    : await client.withdraw(wallet, project.owner, project.projectId)
+
+  return {
+    data: { signature, amount: project.balance.toString() },
+    lines: [`Withdrew ${formatProjectAmount(project, mint, project.balance)}`, `Signature:  ${signature}`],
+  }
+}
+
+// Returns the donation of the keypair to a failed project
+export async function refund(
+  session: WalletSession,
+  address: PublicKey,
+  options: { all?: boolean },
+): Promise<CommandOutput> {
+  if (options.all) return refundAll(session, address)
+
+  const { client, wallet } = session
+  const project = await loadProject(client, address)
+  const mint = await loadMint(client, project)
+  const donation = await client.fetchDonation(address, wallet)
+  if (!donation) {
+    throw new Error(`${wallet.toBase58()} has no donation to refund in this project`)
+  }
+
+  const signature = project.mint
+    ? await client.claimTokenRefund(wallet, project.owner, project.projectId)
+    : await client.claimRefund(wallet, project.owner, project.projectId)
+
+  return {
+    data: { signature, amount: donation.amount.toString() },
+    lines: [`Refunded ${formatProjectAmount(project, mint, donation.amount)}`, `Signature:  ${signature}`],
+  }
+}
+
+// Refunds every donator of a failed project in batches, sent by the owner or any other keypair. Progress goes to
+// stderr so it does not mix with the output.
+async function refundAll({ client, wallet }: WalletSession, address: PublicKey): Promise<CommandOutput> {
+  const project = await loadProject(client, address)
+  let refunded = 0
+  const signatures = await client.refundDonators(wallet, project.owner, project.projectId, (progress) => {
+    refunded = progress.refunded
+    console.error(`Refunded ${progress.refunded} of ${progress.total} donators`)
+  })
+
+  return {
+    data: { signatures, refunded },
+    lines: [
+      `Refunded ${refunded} donators in ${signatures.length} transactions`,
+      ...signatures.map((signature) => `Signature:  ${signature}`),
+    ],
+  }
+}
+
+// Returns the receipt rent to every donator of a successful or withdrawn project, sent by any keypair
+export async function closeReceipts({ client, wallet }: WalletSession, address: PublicKey): Promise<CommandOutput> {
+  const signatures = await client.closeProjectReceipts(wallet, address)
+
+  return {
+    data: { signatures },
+    lines: signatures.length
+      ? [
+          `Closed the donation receipts of ${address.toBase58()} in ${signatures.length} transactions`,
+          ...signatures.map((signature) => `Signature:  ${signature}`),
+        ]
+      : ['No donation receipts to close'],
+  }
+}
+
+export async function listProjects(
+  client: FundingMeClient,
+  options: { owner?: PublicKey; status?: ProjectStatusVariant },
+): Promise<CommandOutput> {
+  const projects = (options.owner ? await client.fetchProjects(options.owner) : await client.fetchAllProjects()).filter(
+    (project) => !options.status || getStatusVariant(project.status) === options.status,
+  )
+
+  // Token amounts are shown with the decimals of their mint
+  const mints = new Map<string, MintData>()
+  for (const mint of new Set(projects.flatMap((project) => (project.mint ? [project.mint.toBase58()] : [])))) {
+    mints.set(mint, await client.fetchMint(new PublicKey(mint)))
+  }
+
+  return {
+    data: { projects: projects.map(serializeProject) },
+    lines: projects.length
+      ? projects.map((project) => formatProjectRow(project, project.mint ? mints.get(project.mint.toBase58())! : null))
+      : ['No projects found'],
+  }
+}
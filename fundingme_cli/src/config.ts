@@ -0,0 +1,53 @@
+import { readFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import path from 'node:path'
+import { AnchorProvider, Wallet } from '@coral-xyz/anchor'
+import { Connection, Keypair, PublicKey } from '@solana/web3.js'
+import { FundingMeClient } from '../../fundingme_frontend/src/lib/anchor/client'
+import { getClient, getReadonlyClient, getRpcUrl } from '../../fundingme_frontend/src/lib/anchor/setup'
+
+// Options shared by every command
+export type GlobalOptions = {
+  cluster: string
+  keypair: string
+  json: boolean
+}
+
+export type WalletSession = {
+  client: FundingMeClient
+  wallet: PublicKey
+}
+
+// Where `solana-keygen new` writes the default keypair
+export const DEFAULT_KEYPAIR = path.join(homedir(), '.config', 'solana', 'id.json')
+
+// Keypair file as written by solana-keygen and used by Anchor.toml: a JSON array of the 64 secret key bytes
+export function loadKeypair(file: string): Keypair {
+  const resolved = file.startsWith('~/') ? path.join(homedir(), file.slice(2)) : file
+  let bytes: unknown
+  try {
+    bytes = JSON.parse(readFileSync(resolved, 'utf8'))
+  } catch (error) {
+    throw new Error(`Could not read the keypair file ${resolved}: ${error instanceof Error ? error.message : error}`)
+  }
+  if (!Array.isArray(bytes) || bytes.length !== 64 || !bytes.every((b) => Number.isInteger(b) && b >= 0 && b < 256)) {
+    throw new Error(`${resolved} is not a keypair file, expected a JSON array of 64 bytes`)
+  }
+  return Keypair.fromSecretKey(Uint8Array.from(bytes))
+}
+
+function getConnection(options: GlobalOptions): Connection {
+  return new Connection(getRpcUrl(options.cluster), 'confirmed')
+}
+
+// Reading accounts needs no keypair, so `status` and `list` also work without one
+export function connect(options: GlobalOptions): FundingMeClient {
+  return getReadonlyClient(getConnection(options))
+}
+
+// Transactions are paid and signed by the keypair
+export function connectWallet(options: GlobalOptions): WalletSession {
+  const keypair = loadKeypair(options.keypair)
+  const provider = new AnchorProvider(getConnection(options), new Wallet(keypair), { commitment: 'confirmed' })
+  return { client: getClient(provider), wallet: keypair.publicKey }
+}
@@ -0,0 +1,66 @@
+import {
+  getStatusVariant,
+  isDeadlinePassed,
+  MintData,
+  ProjectData,
+  STATUS_TEXT,
+} from '../../fundingme_frontend/src/lib/anchor/client'
+import { formatAmount, getPercent, SOL_DECIMALS } from '../../fundingme_frontend/src/lib/amount'
+
+// Human-readable output. Amounts are shown in SOL or whole tokens, `--json` keeps the base units.
+
+// Token amounts need the decimals of the project mint, base units printed as tokens would be off by orders of magnitude
+export function getDecimals(project: ProjectData, mint: MintData | null): number {
+  if (!project.mint) return SOL_DECIMALS
+  if (!mint) {
+    throw new Error(`Could not load the mint ${project.mint.toBase58()} of project ${project.address.toBase58()}`)
+  }
+  return mint.decimals
+}
+
+export function getCurrency(project: ProjectData): string {
+  return project.mint ? `tokens (${project.mint.toBase58().slice(0, 4)}...)` : 'SOL'
+}
+
+export function formatProjectAmount(project: ProjectData, mint: MintData | null, amount: bigint): string {
+  return `${formatAmount(amount, getDecimals(project, mint))} ${getCurrency(project)}`
+}
+
+function formatRaised(project: ProjectData, mint: MintData | null): string {
+  const decimals = getDecimals(project, mint)
+  return (
+    `${formatAmount(project.balance, decimals)} / ${formatAmount(project.financialTarget, decimals)} ` +
+    `${getCurrency(project)} (${getPercent(project.balance, project.financialTarget)}%)`
+  )
+}
+
+export function formatStatus(project: ProjectData): string {
+  return STATUS_TEXT[getStatusVariant(project.status)]
+}
+
+export function describeProject(project: ProjectData, mint: MintData | null): string[] {
+  const deadline = project.deadline
+    ? `${project.deadline.toISOString()}${isDeadlinePassed(project) ? ' (passed)' : ''}`
+    : 'none'
+  return [
+    `Name:       ${project.name}`,
+    `Address:    ${project.address.toBase58()}`,
+    `Owner:      ${project.owner.toBase58()}`,
+    `Project id: ${project.projectId}`,
+    `Status:     ${formatStatus(project)}`,
+    `Raised:     ${formatRaised(project, mint)}`,
+    `Donators:   ${project.donatorCount}`,
+    `Deadline:   ${deadline}`,
+    ...(project.mint ? [`Mint:       ${project.mint.toBase58()}`] : []),
+  ]
+}
+
+// One line per project, for `list`
+export function formatProjectRow(project: ProjectData, mint: MintData | null): string {
+  return [
+    project.address.toBase58().padEnd(44),
+    formatStatus(project).padEnd(14),
+    formatRaised(project, mint).padEnd(36),
+    project.name,
+  ].join('  ')
+}
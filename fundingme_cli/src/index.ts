@@ -0,0 +1,136 @@
+import { Command, InvalidArgumentError } from 'commander'
+import { PublicKey } from '@solana/web3.js'
+import { translateError } from '../../fundingme_frontend/src/lib/anchor/errors'
+import { PROJECT_STATUS_VARIANTS, ProjectStatusVariant } from '../../fundingme_frontend/src/lib/anchor/types'
+import {
+  closeProject,
+  closeReceipts,
+  CommandOutput,
+  createProject,
+  donate,
+  getStatus,
+  listProjects,
+  refund,
+  withdraw,
+} from './commands'
+import { connect, connectWallet, DEFAULT_KEYPAIR, GlobalOptions } from './config'
+
+function parsePublicKey(value: string): PublicKey {
+  try {
+    return new PublicKey(value)
+  } catch {
+    throw new InvalidArgumentError('Not a valid public key.')
+  }
+}
+
+function parseDate(value: string): Date {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new InvalidArgumentError('Not a valid date, use ISO 8601 like 2026-12-31T18:00:00Z.')
+  }
+  return date
+}
+
+function parseStatus(value: string): ProjectStatusVariant {
+  const variant = PROJECT_STATUS_VARIANTS.find((v) => v === value)
+  if (!variant) {
+    throw new InvalidArgumentError(`Must be one of ${PROJECT_STATUS_VARIANTS.join(', ')}.`)
+  }
+  return variant
+}
+
+const program = new Command()
+  .name('fundingme')
+  .description('Create, fund and manage FundingMe projects')
+  .option('-c, --cluster <cluster>', 'RPC URL, or localnet, devnet, testnet, mainnet-beta', 'devnet')
+  .option('-k, --keypair <path>', 'keypair file that signs and pays for transactions', DEFAULT_KEYPAIR)
+  .option('--json', 'print JSON instead of text')
+  .showHelpAfterError()
+
+function getOptions(): GlobalOptions {
+  const { cluster, keypair, json } = program.opts<{ cluster: string; keypair: string; json?: boolean }>()
+  return { cluster, keypair, json: json ?? false }
+}
+
+// Prints the output of a command, or the error that stopped it on stderr with exit code 1
+async function run(command: (options: GlobalOptions) => Promise<CommandOutput>) {
+  const options = getOptions()
+  try {
+    const { data, lines } = await command(options)
+    console.log(options.json ? JSON.stringify(data, null, 2) : lines.join('\n'))
+  } catch (error) {
+    // Program errors get the explanation the frontend shows, anything else keeps its own message
+    const message = error instanceof Error ? error.message : String(error)
+    const { title, description } = translateError(error, message)
+    const details = description !== title ? description : undefined
+    if (options.json) {
+      console.error(JSON.stringify({ error: title, description: details }, null, 2))
+    } else {
+      console.error(`Error: ${title}`)
+      if (details) console.error(details)
+    }
+    process.exitCode = 1
+  }
+}
+
+program
+  .command('create')
+  .description('create a project, raising SOL or the tokens of --mint')
+  .argument('<name>', 'project name')
+  .argument('<target>', 'financial target in SOL, or in tokens with --mint')
+  .option('-d, --deadline <date>', 'date after which anyone can finalize the project', parseDate)
+  .option('-m, --mint <address>', 'SPL Token or Token-2022 mint to raise instead of SOL', parsePublicKey)
+  .action((name: string, target: string, options: { deadline?: Date; mint?: PublicKey }) =>
+    run((global) => createProject(connectWallet(global), name, target, options)),
+  )
+
+program
+  .command('donate')
+  .description('donate to a project')
+  .argument('<project>', 'project address', parsePublicKey)
+  .argument('<amount>', 'amount in SOL, or in tokens for a token project')
+  .action((project: PublicKey, amount: string) => run((global) => donate(connectWallet(global), project, amount)))
+
+program
+  .command('status')
+  .description('show a project')
+  .argument('<project>', 'project address', parsePublicKey)
+  .action((project: PublicKey) => run((global) => getStatus(connect(global), project)))
+
+program
+  .command('close')
+  .description('close a project as Success or Failed, or delete a failed project once every donator is refunded')
+  .argument('<project>', 'project address', parsePublicKey)
+  .action((project: PublicKey) => run((global) => closeProject(connectWallet(global), project)))
+
+program
+  .command('withdraw')
+  .description('withdraw the funds of a successful project')
+  .argument('<project>', 'project address', parsePublicKey)
+  .action((project: PublicKey) => run((global) => withdraw(connectWallet(global), project)))
+
+program
+  .command('refund')
+  .description('claim back your donation to a failed project, or refund every donator with --all')
+  .argument('<project>', 'project address', parsePublicKey)
+  .option('-a, --all', 'refund every donator in batches, from any keypair')
+  .action((project: PublicKey, options: { all?: boolean }) =>
+    run((global) => refund(connectWallet(global), project, options)),
+  )
+
+program
+  .command('close-receipts')
+  .description('return the receipt rent to every donator of a successful or withdrawn project, from any keypair')
+  .argument('<project>', 'project address', parsePublicKey)
+  .action((project: PublicKey) => run((global) => closeReceipts(connectWallet(global), project)))
+
+program
+  .command('list')
+  .description('list open projects')
+  .option('-o, --owner <address>', 'only the projects of this owner', parsePublicKey)
+  .option('-s, --status <status>', `only projects with this status: ${PROJECT_STATUS_VARIANTS.join(', ')}`, parseStatus)
+  .action((options: { owner?: PublicKey; status?: ProjectStatusVariant }) =>
+    run((global) => listProjects(connect(global), options)),
+  )
+
+program.parseAsync()
@@ -8,4 +8,24 @@ pub enum CustomError {
     ProjectWithdrawNotAvailable,
     #[msg("User not authorized for this operation")]
     UserNotAuthorized,
+    #[msg("Deadline must be in the future")]
+    InvalidDeadline,
+    #[msg("Project deadline has passed")]
+    DeadlinePassed,
+    #[msg("Project deadline has not been reached yet")]
+    DeadlineNotReached,
+    #[msg("Project has no deadline to finalize against")]
+    ProjectHasNoDeadline,
+    #[msg("Project is paused and does not accept donations")]
+    ProjectPaused,
+    #[msg("Project is closed and no longer accepts donations")]
+    DonationsClosed,
+    #[msg("Project name is too long")]
+    NameTooLong,
+    #[msg("Donation amount must be greater than zero")]
+    InvalidAmount,
+    #[msg("Project is funded in a different currency")]
+    CurrencyMismatch,
+    #[msg("Refund accounts must be donation receipts of this project, each followed by its donator")]
+    InvalidRefundAccounts,
 }
@@ -0,0 +1,57 @@
+use anchor_lang::prelude::*;
+
+use crate::status::ProjectStatus;
+
+// Emitted with emit! for every lifecycle transition, so clients decode them from the "Program data:" logs
+// instead of parsing msg! strings
+
+#[event]
+pub struct ProjectCreated {
+    pub project: Pubkey,
+    pub owner: Pubkey,
+    pub project_id: u64,
+    pub name: String,
+    pub financial_target: u64,
+    pub deadline: Option<i64>,
+    pub mint: Option<Pubkey>,
+}
+
+#[event]
+pub struct DonationReceived {
+    pub project: Pubkey,
+    pub donator: Pubkey,
+    // What reached the project, Token-2022 transfer fees are already deducted
+    pub amount: u64,
+    pub balance: u64,
+    pub donator_count: u64,
+}
+
+#[event]
+pub struct StatusChanged {
+    pub project: Pubkey,
+    pub previous_status: ProjectStatus,
+    pub status: ProjectStatus,
+}
+
+#[event]
+pub struct FundsWithdrawn {
+    pub project: Pubkey,
+    pub owner: Pubkey,
+    // Raised funds only, the rent of the closed accounts is returned to the owner as well
+    pub amount: u64,
+}
+
+#[event]
+pub struct RefundClaimed {
+    pub project: Pubkey,
+    pub donator: Pubkey,
+    pub amount: u64,
+    pub balance: u64,
+    pub remaining_donators: u64,
+}
+
+#[event]
+pub struct ProjectClosed {
+    pub project: Pubkey,
+    pub owner: Pubkey,
+}
@@ -1,4 +1,5 @@
 use anchor_lang::prelude::*;
+use anchor_spl::token_interface::{self, CloseAccount, Mint, TokenAccount, TokenInterface, TransferChecked};
 
 pub mod errors;
 use crate::errors::CustomError;
@@ -6,8 +7,15 @@ use crate::errors::CustomError;
 pub mod status;
 use status::ProjectStatus;
 
+pub mod events;
+use events::*;
+
 declare_id!("DmcSC8vFAoLr756aDoqkV13S6kosdHHNuziRezhCcKUi");
 
+// Longest project name in bytes
+#[constant]
+pub const MAX_NAME_LEN: u32 = 200;
+
 #[program]
 pub mod fundingme_dapp {
     use super::*;
@@ -16,26 +24,52 @@ pub mod fundingme_dapp {
         ctx: Context<CreateProject>,
         name: String,
         financial_target: u64,
+        deadline: Option<i64>,
     ) -> Result<()> {
-        let project = &mut ctx.accounts.project;
-        project.owner = *ctx.accounts.user.key;
-        project.name = name;
-        project.financial_target = financial_target;
-        project.balance = 0;
-        project.status = ProjectStatus::Active;
-        project.donators = Vec::new();
-        project.bump = ctx.bumps.project;
+        init_project(
+            &mut ctx.accounts.owner_account,
+            ctx.bumps.owner_account,
+            &mut ctx.accounts.project,
+            ctx.bumps.project,
+            ctx.accounts.user.key(),
+            name,
+            financial_target,
+            deadline,
+            None,
+        )?;
 
         msg!("Greetings from: {:?}", ctx.program_id);
-        msg!("Project Name: {}", project.name.to_string());
-        msg!("Project Owner pubkey: {}", project.key().to_string());
-        msg!("Project Data pubkey: {}", project.owner.key().to_string());
-        msg!("Financial Target: {}", project.financial_target.to_string());
-        msg!("Status: {:?}", project.status);
         Ok(())
     }
 
-    pub fn donate(ctx: Context<RunningProject>, amount: u64) -> Result<()> {
+    // Same as create_project, but the project raises `financial_target` base units of `mint` into a vault it owns
+    pub fn create_token_project(
+        ctx: Context<CreateTokenProject>,
+        name: String,
+        financial_target: u64,
+        deadline: Option<i64>,
+    ) -> Result<()> {
+        init_project(
+            &mut ctx.accounts.owner_account,
+            ctx.bumps.owner_account,
+            &mut ctx.accounts.project,
+            ctx.bumps.project,
+            ctx.accounts.user.key(),
+            name,
+            financial_target,
+            deadline,
+            Some(ctx.accounts.mint.key()),
+        )?;
+
+        msg!("Greetings from: {:?}", ctx.program_id);
+        msg!("Vault: {}", ctx.accounts.vault.key());
+        Ok(())
+    }
+
+    pub fn donate(ctx: Context<DonateProject>, amount: u64) -> Result<()> {
+        require!(amount > 0, CustomError::InvalidAmount);
+        check_accepts_donations(&ctx.accounts.project)?;
+
         let txn = anchor_lang::solana_program::system_instruction::transfer(
             &ctx.accounts.user.key(),
             &ctx.accounts.project.key(),
@@ -50,33 +84,103 @@ pub mod fundingme_dapp {
             ],
         )?;
 
-        (&mut ctx.accounts.project).balance += amount;
-        
-        // Add or update donator in the vector
-        let donator_key = ctx.accounts.user.key();
-        let donators = &mut ctx.accounts.project.donators;
-        
-        // Check if this user has already donated
-        if let Some(existing_donator) = donators.iter_mut().find(|d| d.user == donator_key) {
-            // Update existing donator's total amount
-            existing_donator.amount += amount;
-        } else {
-            // Add new donator
-            donators.push(Donator {
-                user: donator_key,
-                amount,
-            });
+        record_donation(
+            &mut ctx.accounts.project,
+            &mut ctx.accounts.donation,
+            ctx.accounts.user.key(),
+            ctx.bumps.donation,
+            amount,
+        );
+
+        Ok(())
+    }
+
+    pub fn donate_token(ctx: Context<DonateToken>, amount: u64) -> Result<()> {
+        require!(amount > 0, CustomError::InvalidAmount);
+        check_accepts_donations(&ctx.accounts.project)?;
+
+        let vault_amount = ctx.accounts.vault.amount;
+        token_interface::transfer_checked(
+            CpiContext::new(
+                ctx.accounts.token_program.to_account_info(),
+                TransferChecked {
+                    from: ctx.accounts.donator_token_account.to_account_info(),
+                    mint: ctx.accounts.mint.to_account_info(),
+                    to: ctx.accounts.vault.to_account_info(),
+                    authority: ctx.accounts.user.to_account_info(),
+                },
+            ),
+            amount,
+            ctx.accounts.mint.decimals,
+        )?;
+
+        // Token-2022 transfer fees are withheld from the vault, only what actually arrived is refundable
+        ctx.accounts.vault.reload()?;
+        let received = ctx.accounts.vault.amount - vault_amount;
+        require!(received > 0, CustomError::InvalidAmount);
+
+        record_donation(
+            &mut ctx.accounts.project,
+            &mut ctx.accounts.donation,
+            ctx.accounts.user.key(),
+            ctx.bumps.donation,
+            received,
+        );
+
+        Ok(())
+    }
+
+    pub fn pause_project(ctx: Context<PauseProject>) -> Result<()> {
+        let project = &mut ctx.accounts.project;
+
+        if project.status != ProjectStatus::Active && project.status != ProjectStatus::TargetReached {
+            return err!(CustomError::InvalidProjectStatus);
         }
 
-        if ctx.accounts.project.balance >= ctx.accounts.project.financial_target {
-            ctx.accounts.project.status = ProjectStatus::TargetReached
-        };
+        let previous_status = project.status.clone();
+        project.status = ProjectStatus::Paused;
+        msg!("Project paused. Donations are blocked until the owner resumes it.");
+        emit!(StatusChanged {
+            project: project.key(),
+            previous_status,
+            status: project.status.clone(),
+        });
+        Ok(())
+    }
+
+    pub fn resume_project(ctx: Context<PauseProject>) -> Result<()> {
+        let project = &mut ctx.accounts.project;
+
+        if project.status != ProjectStatus::Paused {
+            return err!(CustomError::InvalidProjectStatus);
+        }
+
+        // Paused does not remember the previous status, derive it again from the balance
+        if project.balance >= project.financial_target {
+            project.status = ProjectStatus::TargetReached;
+        } else {
+            project.status = ProjectStatus::Active;
+        }
 
+        msg!("Project resumed. Status: {:?}", project.status);
+        emit!(StatusChanged {
+            project: project.key(),
+            previous_status: ProjectStatus::Paused,
+            status: project.status.clone(),
+        });
         Ok(())
     }
 
-    pub fn close_project(ctx: Context<RunningProject>) -> Result<()> {
-        let status = &ctx.accounts.project.status;
+    pub fn close_project(ctx: Context<CloseProject>) -> Result<()> {
+        let project = &ctx.accounts.project;
+        let previous_status = project.status.clone();
+
+        // A paused project closes like the status it was paused from
+        let status = &match project.status {
+            ProjectStatus::Paused if project.balance >= project.financial_target => ProjectStatus::TargetReached,
+            ProjectStatus::Paused => ProjectStatus::Active,
+            ref status => status.clone(),
+        };
 
         if *status == ProjectStatus::Active {
             // Set status to Failed - this enables refunds
@@ -84,17 +188,60 @@ pub mod fundingme_dapp {
             
             // Mark that refunds are available but haven't started yet
             msg!("Project failed. Donators can now claim individual refunds.");
-            msg!("Total donators to refund: {}", ctx.accounts.project.donators.len());
+            msg!("Total donators to refund: {}", ctx.accounts.project.donator_count);
             msg!("Total amount to refund: {} lamports", ctx.accounts.project.balance);
-            
-            Ok(())
         } else if *status == ProjectStatus::TargetReached {
             // Set status to Success so it can be withdrawn later
             ctx.accounts.project.status = ProjectStatus::Success;
-            Ok(())
         } else {
-            err!(CustomError::InvalidProjectStatus)
+            return err!(CustomError::InvalidProjectStatus);
+        }
+
+        emit!(StatusChanged {
+            project: ctx.accounts.project.key(),
+            previous_status,
+            status: ctx.accounts.project.status.clone(),
+        });
+        Ok(())
+    }
+
+    // Permissionless: once the deadline has passed anyone can settle the project based on the raised balance
+    pub fn finalize_project(ctx: Context<FinalizeProject>) -> Result<()> {
+        let project = &mut ctx.accounts.project;
+
+        let deadline = match project.deadline {
+            Some(deadline) => deadline,
+            None => return err!(CustomError::ProjectHasNoDeadline),
+        };
+        require!(
+            Clock::get()?.unix_timestamp >= deadline,
+            CustomError::DeadlineNotReached
+        );
+
+        // Paused projects are finalized too, otherwise pausing could keep donations locked past the deadline
+        if project.status != ProjectStatus::Active
+            && project.status != ProjectStatus::TargetReached
+            && project.status != ProjectStatus::Paused
+        {
+            return err!(CustomError::InvalidProjectStatus);
+        }
+
+        let previous_status = project.status.clone();
+        if project.balance >= project.financial_target {
+            project.status = ProjectStatus::Success;
+        } else {
+            project.status = ProjectStatus::Failed;
+            msg!("Project failed. Donators can now claim individual refunds.");
         }
+
+        msg!("Project finalized by: {}", ctx.accounts.user.key());
+        msg!("Status: {:?}", project.status);
+        emit!(StatusChanged {
+            project: project.key(),
+            previous_status,
+            status: project.status.clone(),
+        });
+        Ok(())
     }
 
     pub fn claim_refund(ctx: Context<ClaimRefund>) -> Result<()> {
@@ -102,46 +249,160 @@ pub mod fundingme_dapp {
             return err!(CustomError::InvalidProjectStatus);
         }
 
-        // Get donator key and find their entry
+        // The donation receipt holds the refundable amount and is closed back to the donator below
         let donator_key = ctx.accounts.donator.key();
-        let donators = &ctx.accounts.project.donators;
-        let donator_index_and_amount = donators.iter()
-            .enumerate()
-            .find(|(_, d)| d.user == donator_key)
-            .map(|(index, donator)| (index, donator.amount));
+        let donator_amount = ctx.accounts.donation.amount;
+
+        // Transfer lamports directly from project account to donator
+        // This uses account info manipulation instead of system instruction
+        let project_lamports = ctx.accounts.project.to_account_info().lamports();
         
-        if let Some((donator_index, donator_amount)) = donator_index_and_amount {
-            // Transfer lamports directly from project account to donator
-            // This uses account info manipulation instead of system instruction
-            let project_lamports = ctx.accounts.project.to_account_info().lamports();
-            
-            // Ensure project has enough lamports
+        // Ensure project has enough lamports
+        require!(
+            project_lamports >= donator_amount,
+            CustomError::InvalidProjectStatus
+        );
+        
+        // Perform the transfer by manipulating account lamports directly
+        **ctx.accounts.project.to_account_info().try_borrow_mut_lamports()? -= donator_amount;
+        **ctx.accounts.donator.to_account_info().try_borrow_mut_lamports()? += donator_amount;
+        
+        // Update project state
+        let project = &mut ctx.accounts.project;
+        record_refund(project, donator_key, donator_amount);
+
+        msg!("Refunded {} lamports to {}", donator_amount, donator_key);
+        msg!("Remaining donators: {}", project.donator_count);
+        
+        Ok(())
+    }
+
+    pub fn claim_token_refund(ctx: Context<ClaimTokenRefund>) -> Result<()> {
+        if ctx.accounts.project.status != ProjectStatus::Failed {
+            return err!(CustomError::InvalidProjectStatus);
+        }
+
+        // The donation receipt holds the refundable amount and is closed back to the donator below
+        let donator_key = ctx.accounts.donator.key();
+        let donator_amount = ctx.accounts.donation.amount;
+
+        transfer_from_vault(
+            &ctx.accounts.project,
+            &ctx.accounts.vault,
+            &ctx.accounts.mint,
+            &ctx.accounts.donator_token_account,
+            &ctx.accounts.token_program,
+            donator_amount,
+        )?;
+
+        let project = &mut ctx.accounts.project;
+        record_refund(project, donator_key, donator_amount);
+
+        msg!("Refunded {} tokens to {}", donator_amount, donator_key);
+        msg!("Remaining donators: {}", project.donator_count);
+
+        Ok(())
+    }
+
+    // Refunds many donators of a failed project at once, so close_failed_project is not blocked by donators who never
+    // claim. Anyone can send it, the funds can only go back to the donators.
+    // Remaining accounts: (donation receipt, donator) pairs, both writable.
+    pub fn batch_refund<'info>(ctx: Context<'_, '_, 'info, 'info, BatchRefund<'info>>) -> Result<()> {
+        require!(
+            ctx.remaining_accounts.len() % 2 == 0,
+            CustomError::InvalidRefundAccounts
+        );
+
+        let project = &mut ctx.accounts.project;
+        for accounts in ctx.remaining_accounts.chunks(2) {
+            let (donation, donator) = (&accounts[0], &accounts[1]);
+            let amount = close_donation(project.key(), donation, donator)?;
+
             require!(
-                project_lamports >= donator_amount,
+                project.to_account_info().lamports() >= amount,
                 CustomError::InvalidProjectStatus
             );
-            
-            // Perform the transfer by manipulating account lamports directly
-            **ctx.accounts.project.to_account_info().try_borrow_mut_lamports()? -= donator_amount;
-            **ctx.accounts.donator.to_account_info().try_borrow_mut_lamports()? += donator_amount;
-            
-            // Update project state
-            let project = &mut ctx.accounts.project;
-            project.donators.remove(donator_index);
-            project.balance -= donator_amount;
+            **project.to_account_info().try_borrow_mut_lamports()? -= amount;
+            **donator.try_borrow_mut_lamports()? += amount;
 
-            msg!("Refunded {} lamports to {}", donator_amount, donator_key);
-            msg!("Remaining donators: {}", project.donators.len());
-            
-            Ok(())
+            record_refund(project, donator.key(), amount);
+        }
+
+        msg!("Refunded {} donators", ctx.remaining_accounts.len() / 2);
+        msg!("Remaining donators: {}", project.donator_count);
+        Ok(())
+    }
+
+    // Remaining accounts: (donation receipt, donator, donator token account of the project mint) triples, all writable
+    pub fn batch_token_refund<'info>(ctx: Context<'_, '_, 'info, 'info, BatchTokenRefund<'info>>) -> Result<()> {
+        require!(
+            ctx.remaining_accounts.len() % 3 == 0,
+            CustomError::InvalidRefundAccounts
+        );
+
+        for accounts in ctx.remaining_accounts.chunks(3) {
+            let (donation, donator) = (&accounts[0], &accounts[1]);
+            let donator_token_account = InterfaceAccount::<TokenAccount>::try_from(&accounts[2])?;
+            require!(
+                donator_token_account.mint == ctx.accounts.mint.key()
+                    && donator_token_account.owner == donator.key(),
+                CustomError::InvalidRefundAccounts
+            );
+
+            let amount = close_donation(ctx.accounts.project.key(), donation, donator)?;
+            transfer_from_vault(
+                &ctx.accounts.project,
+                &ctx.accounts.vault,
+                &ctx.accounts.mint,
+                &donator_token_account,
+                &ctx.accounts.token_program,
+                amount,
+            )?;
+
+            record_refund(&mut ctx.accounts.project, donator.key(), amount);
+        }
+
+        msg!("Refunded {} donators", ctx.remaining_accounts.len() / 3);
+        msg!("Remaining donators: {}", ctx.accounts.project.donator_count);
+        Ok(())
+    }
+
+    // Donations to a successful project are kept by the owner, so withdraw leaves the receipts open. This returns their
+    // rent to the donators once the project is Success or withdrawn. Anyone can send it, the rent can only go back to
+    // the donators.
+    // Remaining accounts: (donation receipt, donator) pairs, both writable.
+    pub fn close_receipts<'info>(ctx: Context<'_, '_, 'info, 'info, CloseReceipts<'info>>) -> Result<()> {
+        let project = &ctx.accounts.project;
+        if project.owner == &crate::ID {
+            let account = ProjectAccount::try_deserialize(&mut &project.try_borrow_data()?[..])?;
+            require!(
+                account.status == ProjectStatus::Success,
+                CustomError::InvalidProjectStatus
+            );
         } else {
-            err!(CustomError::UserNotAuthorized) // Donator not found in list
+            // Withdrawn: the closed project account went back to the system program without data. Only projects
+            // that succeeded are closed with receipts left, failed ones need every donator refunded first.
+            require!(
+                project.owner == &anchor_lang::system_program::ID && project.data_is_empty(),
+                CustomError::InvalidProjectStatus
+            );
         }
+
+        require!(
+            ctx.remaining_accounts.len() % 2 == 0,
+            CustomError::InvalidRefundAccounts
+        );
+        for accounts in ctx.remaining_accounts.chunks(2) {
+            close_donation(project.key(), &accounts[0], &accounts[1])?;
+        }
+
+        msg!("Closed {} donation receipts", ctx.remaining_accounts.len() / 2);
+        Ok(())
     }
 
     // Helper function to get donator count (can be called via view)
     pub fn get_donator_count(ctx: Context<RunningProject>) -> Result<u64> {
-        Ok(ctx.accounts.project.donators.len() as u64)
+        Ok(ctx.accounts.project.donator_count)
     }
 
     pub fn withdraw(ctx: Context<WithdrawProject>) -> Result<()> {
@@ -156,6 +417,15 @@ pub mod fundingme_dapp {
         // The PDA account will be automatically closed and all lamports 
         // (including both donations and rent exemption) will be transferred 
         // to the project owner due to the `close` constraint in WithdrawProject
+        emit!(FundsWithdrawn {
+            project: ctx.accounts.project.key(),
+            owner: ctx.accounts.user.key(),
+            amount: ctx.accounts.project.balance,
+        });
+        emit!(ProjectClosed {
+            project: ctx.accounts.project.key(),
+            owner: ctx.accounts.user.key(),
+        });
 
         Ok(())
     }
@@ -171,7 +441,7 @@ pub mod fundingme_dapp {
         }
 
         // Ensure all donators have been refunded
-        if !ctx.accounts.project.donators.is_empty() {
+        if ctx.accounts.project.donator_count != 0 {
             return err!(CustomError::InvalidProjectStatus); // Still has unreturned funds
         }
 
@@ -179,22 +449,304 @@ pub mod fundingme_dapp {
         // Any remaining lamports (rent exemption) will go to the project owner
         
         msg!("Failed project closed successfully. All donators have been refunded.");
+        emit!(ProjectClosed {
+            project: ctx.accounts.project.key(),
+            owner: ctx.accounts.user.key(),
+        });
         Ok(())
     }
 
+    pub fn withdraw_token(ctx: Context<WithdrawTokenProject>) -> Result<()> {
+        if ctx.accounts.project.status != ProjectStatus::Success {
+            return err!(CustomError::ProjectWithdrawNotAvailable);
+        }
+
+        emit!(FundsWithdrawn {
+            project: ctx.accounts.project.key(),
+            owner: ctx.accounts.user.key(),
+            amount: ctx.accounts.vault.amount,
+        });
+        emit!(ProjectClosed {
+            project: ctx.accounts.project.key(),
+            owner: ctx.accounts.user.key(),
+        });
+
+        // Everything in the vault goes to the owner, then the vault rent and (through `close`) the project rent
+        release_vault(
+            &ctx.accounts.project,
+            &ctx.accounts.vault,
+            &ctx.accounts.mint,
+            &ctx.accounts.owner_token_account,
+            &ctx.accounts.user,
+            &ctx.accounts.token_program,
+        )
+    }
+
+    pub fn close_failed_token_project(ctx: Context<RefundTokenProject>) -> Result<()> {
+        if ctx.accounts.project.status != ProjectStatus::Failed {
+            return err!(CustomError::InvalidProjectStatus);
+        }
+
+        // Ensure all donators have been refunded
+        if ctx.accounts.project.donator_count != 0 {
+            return err!(CustomError::InvalidProjectStatus); // Still has unreturned funds
+        }
+
+        // Tokens sent to the vault outside of donate_token belong to nobody else, they go to the owner with the rent
+        release_vault(
+            &ctx.accounts.project,
+            &ctx.accounts.vault,
+            &ctx.accounts.mint,
+            &ctx.accounts.owner_token_account,
+            &ctx.accounts.user,
+            &ctx.accounts.token_program,
+        )?;
+
+        msg!("Failed project closed successfully. All donators have been refunded.");
+        emit!(ProjectClosed {
+            project: ctx.accounts.project.key(),
+            owner: ctx.accounts.user.key(),
+        });
+        Ok(())
+    }
+
+}
+
+// Shared by create_project and create_token_project, `mint` is None for projects funded in SOL
+#[allow(clippy::too_many_arguments)]
+fn init_project(
+    owner_account: &mut Account<OwnerAccount>,
+    owner_bump: u8,
+    project: &mut Account<ProjectAccount>,
+    project_bump: u8,
+    owner: Pubkey,
+    name: String,
+    financial_target: u64,
+    deadline: Option<i64>,
+    mint: Option<Pubkey>,
+) -> Result<()> {
+    require!(
+        name.len() <= MAX_NAME_LEN as usize,
+        CustomError::NameTooLong
+    );
+
+    // The deadline is an optional unix timestamp after which donations stop and anyone can finalize the project
+    if let Some(deadline) = deadline {
+        require!(
+            deadline > Clock::get()?.unix_timestamp,
+            CustomError::InvalidDeadline
+        );
+    }
+
+    // Each owner keeps a counter of created projects; the current value becomes the new project's id
+    let project_id = owner_account.project_count;
+    owner_account.owner = owner;
+    owner_account.project_count += 1;
+    owner_account.bump = owner_bump;
+
+    project.owner = owner;
+    project.project_id = project_id;
+    project.name = name;
+    project.financial_target = financial_target;
+    project.balance = 0;
+    project.status = ProjectStatus::Active;
+    project.deadline = deadline;
+    project.donator_count = 0;
+    project.mint = mint;
+    project.bump = project_bump;
+
+    msg!("Project Name: {}", project.name.to_string());
+    msg!("Project Id: {}", project.project_id);
+    msg!("Project Owner pubkey: {}", project.key().to_string());
+    msg!("Project Data pubkey: {}", project.owner.key().to_string());
+    msg!("Financial Target: {}", project.financial_target.to_string());
+    msg!("Status: {:?}", project.status);
+    msg!("Deadline: {:?}", project.deadline);
+    msg!("Mint: {:?}", project.mint);
+    emit!(ProjectCreated {
+        project: project.key(),
+        owner,
+        project_id,
+        name: project.name.clone(),
+        financial_target,
+        deadline,
+        mint,
+    });
+    Ok(())
+}
+
+// Donations stop while the project is paused, once it is closed and once its deadline has passed
+fn check_accepts_donations(project: &ProjectAccount) -> Result<()> {
+    match project.status {
+        ProjectStatus::Active | ProjectStatus::TargetReached => {}
+        ProjectStatus::Paused => return err!(CustomError::ProjectPaused),
+        ProjectStatus::Success | ProjectStatus::Failed => return err!(CustomError::DonationsClosed),
+    }
+
+    if let Some(deadline) = project.deadline {
+        require!(
+            Clock::get()?.unix_timestamp < deadline,
+            CustomError::DeadlinePassed
+        );
+    }
+
+    Ok(())
+}
+
+// Each donator has one receipt per project, created on the first donation and topped up afterwards
+fn record_donation(
+    project: &mut Account<ProjectAccount>,
+    donation: &mut Account<DonationAccount>,
+    donator: Pubkey,
+    donation_bump: u8,
+    amount: u64,
+) {
+    project.balance += amount;
+
+    if donation.donator == Pubkey::default() {
+        donation.project = project.key();
+        donation.donator = donator;
+        donation.bump = donation_bump;
+        project.donator_count += 1;
+    }
+    donation.amount += amount;
+
+    emit!(DonationReceived {
+        project: project.key(),
+        donator,
+        amount,
+        balance: project.balance,
+        donator_count: project.donator_count,
+    });
+
+    if project.status == ProjectStatus::Active && project.balance >= project.financial_target {
+        emit!(StatusChanged {
+            project: project.key(),
+            previous_status: project.status.clone(),
+            status: ProjectStatus::TargetReached,
+        });
+        project.status = ProjectStatus::TargetReached
+    };
+}
+
+// Shared by the refund instructions, once the refunded amount has left the project
+fn record_refund(project: &mut Account<ProjectAccount>, donator: Pubkey, amount: u64) {
+    project.donator_count -= 1;
+    project.balance -= amount;
+
+    emit!(RefundClaimed {
+        project: project.key(),
+        donator,
+        amount,
+        balance: project.balance,
+        remaining_donators: project.donator_count,
+    });
+}
+
+// Batch refunds and close_receipts receive the donation receipts as remaining accounts, so the seeds and owner checks
+// that the `#[account]` constraints do for claim_refund happen here. The receipt is closed, its rent goes back to the
+// donator. Returns the donated amount.
+fn close_donation<'info>(
+    project: Pubkey,
+    donation: &'info AccountInfo<'info>,
+    donator: &'info AccountInfo<'info>,
+) -> Result<u64> {
+    let receipt = Account::<DonationAccount>::try_from(donation)?;
+    let receipt_address = Pubkey::create_program_address(
+        &[b"donation", project.as_ref(), donator.key().as_ref(), &[receipt.bump]],
+        &crate::ID,
+    )
+    .map_err(|_| error!(CustomError::InvalidRefundAccounts))?;
+    require!(
+        receipt_address == donation.key()
+            && receipt.project == project
+            && receipt.donator == donator.key(),
+        CustomError::InvalidRefundAccounts
+    );
+
+    let amount = receipt.amount;
+    receipt.close(donator.clone())?;
+    Ok(amount)
+}
+
+// The vault is owned by the project PDA, so every transfer out of it is signed with the project seeds
+fn transfer_from_vault<'info>(
+    project: &Account<'info, ProjectAccount>,
+    vault: &InterfaceAccount<'info, TokenAccount>,
+    mint: &InterfaceAccount<'info, Mint>,
+    to: &InterfaceAccount<'info, TokenAccount>,
+    token_program: &Interface<'info, TokenInterface>,
+    amount: u64,
+) -> Result<()> {
+    let project_id = project.project_id.to_le_bytes();
+    let bump = [project.bump];
+    let signer_seeds: &[&[&[u8]]] = &[&[b"project", project.owner.as_ref(), &project_id, &bump]];
+
+    token_interface::transfer_checked(
+        CpiContext::new_with_signer(
+            token_program.to_account_info(),
+            TransferChecked {
+                from: vault.to_account_info(),
+                mint: mint.to_account_info(),
+                to: to.to_account_info(),
+                authority: project.to_account_info(),
+            },
+            signer_seeds,
+        ),
+        amount,
+        mint.decimals,
+    )
+}
+
+// Empties the vault into `to` and closes it, its rent goes to `owner`
+fn release_vault<'info>(
+    project: &Account<'info, ProjectAccount>,
+    vault: &InterfaceAccount<'info, TokenAccount>,
+    mint: &InterfaceAccount<'info, Mint>,
+    to: &InterfaceAccount<'info, TokenAccount>,
+    owner: &Signer<'info>,
+    token_program: &Interface<'info, TokenInterface>,
+) -> Result<()> {
+    if vault.amount > 0 {
+        transfer_from_vault(project, vault, mint, to, token_program, vault.amount)?;
+    }
+
+    let project_id = project.project_id.to_le_bytes();
+    let bump = [project.bump];
+    let signer_seeds: &[&[&[u8]]] = &[&[b"project", project.owner.as_ref(), &project_id, &bump]];
+
+    token_interface::close_account(CpiContext::new_with_signer(
+        token_program.to_account_info(),
+        CloseAccount {
+            account: vault.to_account_info(),
+            destination: owner.to_account_info(),
+            authority: project.to_account_info(),
+        },
+        signer_seeds,
+    ))
 }
 
 
 #[derive(Accounts)]
+#[instruction(name: String)]
 pub struct CreateProject<'info> {
     #[account(mut)]
     pub user: Signer<'info>,
 
+    #[account(
+        init_if_needed,
+        payer = user,
+        space = 8 + OwnerAccount::INIT_SPACE,
+        seeds = [b"owner", user.key().as_ref()],
+        bump,
+    )]
+    pub owner_account: Account<'info, OwnerAccount>,
+
     #[account(
         init,
         payer = user,
-        space = 5000, //  8 + 2 + 4 + 200 + 1,
-        seeds = [b"project", user.key().as_ref()],
+        space = ProjectAccount::space(&name),
+        seeds = [b"project", user.key().as_ref(), &owner_account.project_count.to_le_bytes()],
         bump,
     )]
     pub project: Account<'info, ProjectAccount>,
@@ -203,14 +755,142 @@ pub struct CreateProject<'info> {
 }
 
 #[derive(Accounts)]
-pub struct RunningProject<'info> {
+#[instruction(name: String)]
+pub struct CreateTokenProject<'info> {
     #[account(mut)]
     pub user: Signer<'info>,
+
+    #[account(
+        init_if_needed,
+        payer = user,
+        space = 8 + OwnerAccount::INIT_SPACE,
+        seeds = [b"owner", user.key().as_ref()],
+        bump,
+    )]
+    pub owner_account: Account<'info, OwnerAccount>,
+
+    #[account(
+        init,
+        payer = user,
+        space = ProjectAccount::space(&name),
+        seeds = [b"project", user.key().as_ref(), &owner_account.project_count.to_le_bytes()],
+        bump,
+    )]
+    pub project: Account<'info, ProjectAccount>,
+
+    #[account(mint::token_program = token_program)]
+    pub mint: Box<InterfaceAccount<'info, Mint>>,
+
+    // Holds the donated tokens until they are withdrawn or refunded, only the project PDA can move them
+    #[account(
+        init,
+        payer = user,
+        token::mint = mint,
+        token::authority = project,
+        token::token_program = token_program,
+        seeds = [b"vault", project.key().as_ref()],
+        bump,
+    )]
+    pub vault: Box<InterfaceAccount<'info, TokenAccount>>,
+
+    pub token_program: Interface<'info, TokenInterface>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct DonateProject<'info> {
     #[account(mut)]
+    pub user: Signer<'info>,
+    #[account(
+        mut,
+        constraint = project.mint.is_none() @ CustomError::CurrencyMismatch,
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
+        bump = project.bump
+    )]
     pub project: Account<'info, ProjectAccount>,
+    #[account(
+        init_if_needed,
+        payer = user,
+        space = 8 + DonationAccount::INIT_SPACE,
+        seeds = [b"donation", project.key().as_ref(), user.key().as_ref()],
+        bump,
+    )]
+    pub donation: Account<'info, DonationAccount>,
     pub system_program: Program<'info, System>,
 }
 
+#[derive(Accounts)]
+pub struct DonateToken<'info> {
+    #[account(mut)]
+    pub user: Signer<'info>,
+    #[account(
+        mut,
+        constraint = project.mint == Some(mint.key()) @ CustomError::CurrencyMismatch,
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
+        bump = project.bump
+    )]
+    pub project: Account<'info, ProjectAccount>,
+    #[account(
+        init_if_needed,
+        payer = user,
+        space = 8 + DonationAccount::INIT_SPACE,
+        seeds = [b"donation", project.key().as_ref(), user.key().as_ref()],
+        bump,
+    )]
+    pub donation: Account<'info, DonationAccount>,
+    pub mint: Box<InterfaceAccount<'info, Mint>>,
+    #[account(
+        mut,
+        token::mint = mint,
+        token::authority = user,
+        token::token_program = token_program,
+    )]
+    pub donator_token_account: Box<InterfaceAccount<'info, TokenAccount>>,
+    #[account(
+        mut,
+        seeds = [b"vault", project.key().as_ref()],
+        bump
+    )]
+    pub vault: Box<InterfaceAccount<'info, TokenAccount>>,
+    pub token_program: Interface<'info, TokenInterface>,
+    pub system_program: Program<'info, System>,
+}
+
+// Read-only so the instruction can be called with `.view()`
+#[derive(Accounts)]
+pub struct RunningProject<'info> {
+    pub user: Signer<'info>,
+    #[account(
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
+        bump = project.bump
+    )]
+    pub project: Account<'info, ProjectAccount>,
+}
+
+#[derive(Accounts)]
+pub struct CloseProject<'info> {
+    pub user: Signer<'info>,
+    #[account(
+        mut,
+        constraint = project.owner == user.key() @ CustomError::UserNotAuthorized,
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
+        bump = project.bump
+    )]
+    pub project: Account<'info, ProjectAccount>,
+}
+
+#[derive(Accounts)]
+pub struct PauseProject<'info> {
+    pub user: Signer<'info>,
+    #[account(
+        mut,
+        constraint = project.owner == user.key() @ CustomError::UserNotAuthorized,
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
+        bump = project.bump
+    )]
+    pub project: Account<'info, ProjectAccount>,
+}
+
 #[derive(Accounts)]
 pub struct WithdrawProject<'info> {
     #[account(mut)]
@@ -219,7 +899,8 @@ pub struct WithdrawProject<'info> {
         mut,
         close = user,
         constraint = project.owner == user.key(),
-        seeds = [b"project", project.owner.as_ref()],
+        constraint = project.mint.is_none() @ CustomError::CurrencyMismatch,
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
         bump = project.bump
     )]
     pub project: Account<'info, ProjectAccount>,
@@ -235,13 +916,25 @@ pub struct RefundProject<'info> {
         close = user,
         constraint = project.owner == user.key(),
         constraint = project.status == status::ProjectStatus::Failed,
-        seeds = [b"project", project.owner.as_ref()],
+        constraint = project.mint.is_none() @ CustomError::CurrencyMismatch,
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
         bump = project.bump
     )]
     pub project: Account<'info, ProjectAccount>,
     pub system_program: Program<'info, System>,
 }
 
+#[derive(Accounts)]
+pub struct FinalizeProject<'info> {
+    pub user: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
+        bump = project.bump
+    )]
+    pub project: Account<'info, ProjectAccount>,
+}
+
 #[derive(Accounts)]
 pub struct ClaimRefund<'info> {
     #[account(mut)]
@@ -249,26 +942,206 @@ pub struct ClaimRefund<'info> {
     #[account(
         mut,
         constraint = project.status == status::ProjectStatus::Failed,
-        seeds = [b"project", project.owner.as_ref()],
+        constraint = project.mint.is_none() @ CustomError::CurrencyMismatch,
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
         bump = project.bump
     )]
     pub project: Account<'info, ProjectAccount>,
+    // Only exists for wallets that donated to this project, its rent goes back to the donator
+    #[account(
+        mut,
+        close = donator,
+        seeds = [b"donation", project.key().as_ref(), donator.key().as_ref()],
+        bump = donation.bump
+    )]
+    pub donation: Account<'info, DonationAccount>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct WithdrawTokenProject<'info> {
+    #[account(mut)]
+    pub user: Signer<'info>,
+    #[account(
+        mut,
+        close = user,
+        constraint = project.owner == user.key() @ CustomError::UserNotAuthorized,
+        constraint = project.mint == Some(mint.key()) @ CustomError::CurrencyMismatch,
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
+        bump = project.bump
+    )]
+    pub project: Account<'info, ProjectAccount>,
+    pub mint: Box<InterfaceAccount<'info, Mint>>,
+    #[account(
+        mut,
+        seeds = [b"vault", project.key().as_ref()],
+        bump
+    )]
+    pub vault: Box<InterfaceAccount<'info, TokenAccount>>,
+    #[account(
+        mut,
+        token::mint = mint,
+        token::authority = user,
+        token::token_program = token_program,
+    )]
+    pub owner_token_account: Box<InterfaceAccount<'info, TokenAccount>>,
+    pub token_program: Interface<'info, TokenInterface>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct RefundTokenProject<'info> {
+    #[account(mut)]
+    pub user: Signer<'info>,
+    #[account(
+        mut,
+        close = user,
+        constraint = project.owner == user.key() @ CustomError::UserNotAuthorized,
+        constraint = project.mint == Some(mint.key()) @ CustomError::CurrencyMismatch,
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
+        bump = project.bump
+    )]
+    pub project: Account<'info, ProjectAccount>,
+    pub mint: Box<InterfaceAccount<'info, Mint>>,
+    #[account(
+        mut,
+        seeds = [b"vault", project.key().as_ref()],
+        bump
+    )]
+    pub vault: Box<InterfaceAccount<'info, TokenAccount>>,
+    #[account(
+        mut,
+        token::mint = mint,
+        token::authority = user,
+        token::token_program = token_program,
+    )]
+    pub owner_token_account: Box<InterfaceAccount<'info, TokenAccount>>,
+    pub token_program: Interface<'info, TokenInterface>,
     pub system_program: Program<'info, System>,
 }
 
+#[derive(Accounts)]
+pub struct ClaimTokenRefund<'info> {
+    #[account(mut)]
+    pub donator: Signer<'info>,
+    #[account(
+        mut,
+        constraint = project.status == status::ProjectStatus::Failed,
+        constraint = project.mint == Some(mint.key()) @ CustomError::CurrencyMismatch,
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
+        bump = project.bump
+    )]
+    pub project: Account<'info, ProjectAccount>,
+    // Only exists for wallets that donated to this project, its rent goes back to the donator
+    #[account(
+        mut,
+        close = donator,
+        seeds = [b"donation", project.key().as_ref(), donator.key().as_ref()],
+        bump = donation.bump
+    )]
+    pub donation: Account<'info, DonationAccount>,
+    pub mint: Box<InterfaceAccount<'info, Mint>>,
+    #[account(
+        mut,
+        seeds = [b"vault", project.key().as_ref()],
+        bump
+    )]
+    pub vault: Box<InterfaceAccount<'info, TokenAccount>>,
+    // Any token account of the donator for the project mint, not necessarily the one they donated from
+    #[account(
+        mut,
+        token::mint = mint,
+        token::authority = donator,
+        token::token_program = token_program,
+    )]
+    pub donator_token_account: Box<InterfaceAccount<'info, TokenAccount>>,
+    pub token_program: Interface<'info, TokenInterface>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct BatchRefund<'info> {
+    // Owner or any cranker, only pays the transaction fee
+    pub user: Signer<'info>,
+    #[account(
+        mut,
+        constraint = project.status == status::ProjectStatus::Failed @ CustomError::InvalidProjectStatus,
+        constraint = project.mint.is_none() @ CustomError::CurrencyMismatch,
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
+        bump = project.bump
+    )]
+    pub project: Account<'info, ProjectAccount>,
+}
+
+#[derive(Accounts)]
+pub struct BatchTokenRefund<'info> {
+    // Owner or any cranker, only pays the transaction fee
+    pub user: Signer<'info>,
+    #[account(
+        mut,
+        constraint = project.status == status::ProjectStatus::Failed @ CustomError::InvalidProjectStatus,
+        constraint = project.mint == Some(mint.key()) @ CustomError::CurrencyMismatch,
+        seeds = [b"project", project.owner.as_ref(), &project.project_id.to_le_bytes()],
+        bump = project.bump
+    )]
+    pub project: Account<'info, ProjectAccount>,
+    pub mint: Box<InterfaceAccount<'info, Mint>>,
+    #[account(
+        mut,
+        seeds = [b"vault", project.key().as_ref()],
+        bump
+    )]
+    pub vault: Box<InterfaceAccount<'info, TokenAccount>>,
+    pub token_program: Interface<'info, TokenInterface>,
+}
+
+#[derive(Accounts)]
+pub struct CloseReceipts<'info> {
+    // Donator, owner or any cranker, only pays the transaction fee
+    pub user: Signer<'info>,
+    /// CHECK: a Success project or the address of a withdrawn one, checked in close_receipts. Each receipt must
+    /// belong to it, which close_donation checks.
+    pub project: UncheckedAccount<'info>,
+}
+
+#[account]
+#[derive(InitSpace)]
+pub struct OwnerAccount {
+    owner: Pubkey,
+    project_count: u64,
+    bump: u8,
+}
+
 #[account]
+#[derive(InitSpace)]
 pub struct ProjectAccount {
     owner: Pubkey,
+    project_id: u64,
+    #[max_len(0)]
     name: String,
     financial_target: u64,
     balance: u64,
     status: ProjectStatus,
-    donators: Vec<Donator>,
+    deadline: Option<i64>,
+    donator_count: u64,
+    // Accepted SPL Token / Token-2022 mint, None for projects funded in SOL
+    mint: Option<Pubkey>,
     bump: u8,
 }
 
-#[derive(AnchorSerialize, AnchorDeserialize, Clone, Debug)]
-pub struct Donator {
-    pub user: Pubkey,
-    pub amount: u64,
+impl ProjectAccount {
+    // INIT_SPACE counts the name as empty, add what is actually stored
+    pub fn space(name: &str) -> usize {
+        8 + ProjectAccount::INIT_SPACE + name.len()
+    }
+}
+
+// Receipt of everything one donator gave to one project, seeded by ["donation", project, donator]
+#[account]
+#[derive(InitSpace)]
+pub struct DonationAccount {
+    project: Pubkey,
+    donator: Pubkey,
+    amount: u64,
+    bump: u8,
 }
@@ -2,19 +2,135 @@ import * as anchor from "@coral-xyz/anchor";
 import { Program } from "@coral-xyz/anchor";
 import { FundingmeDapp } from "../target/types/fundingme_dapp";
 import * as assert from "assert";
+import * as splToken from "@solana/spl-token";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  findAssociatedTokenAddress,
+  FundingMeClient,
+  getProjectAccountSpace,
+  REFUND_BATCH_SIZE,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_REFUND_BATCH_SIZE,
+  TOKEN_PROGRAM_ID,
+} from "../../fundingme_frontend/src/lib/anchor/client";
+import { formatAmount, parseAmount, SOL_DECIMALS, validateAmount } from "../../fundingme_frontend/src/lib/amount";
+import { byCurrencyAndAmount, paginate } from "../../fundingme_frontend/src/lib/api/pagination";
+
+// Helper function to find the owner counter PDA and the PDA of the owner's project with the given id
+function findProjectPdas(program: Program<FundingmeDapp>, owner: anchor.web3.PublicKey, projectId: number = 0) {
+  const [ownerAccountPdaAddr] = anchor.web3.PublicKey.findProgramAddressSync(
+    [Buffer.from("owner"), owner.toBuffer()],
+    program.programId
+  );
+  const [projectAccountPdaAddr] = anchor.web3.PublicKey.findProgramAddressSync(
+    [Buffer.from("project"), owner.toBuffer(), new anchor.BN(projectId).toArrayLike(Buffer, "le", 8)],
+    program.programId
+  );
+  return { ownerAccountPdaAddr, projectAccountPdaAddr };
+}
+
+// Helper function to wait until the cluster clock has reached a unix timestamp
+async function waitForClusterTime(timestamp: number) {
+  const connection = anchor.getProvider().connection;
+  for (;;) {
+    const blockTime = await connection.getBlockTime(await connection.getSlot("confirmed"));
+    if (blockTime !== null && blockTime >= timestamp) return;
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+}
+
+// Helper function to get the current unix timestamp of the cluster clock
+async function getClusterTime() {
+  const connection = anchor.getProvider().connection;
+  return await connection.getBlockTime(await connection.getSlot("confirmed"));
+}
+
+// Helper function to find the donation receipt PDA of a donator on a project
+function findDonationPda(program: Program<FundingmeDapp>, project: anchor.web3.PublicKey, donator: anchor.web3.PublicKey) {
+  const [donationPdaAddr] = anchor.web3.PublicKey.findProgramAddressSync(
+    [Buffer.from("donation"), project.toBuffer(), donator.toBuffer()],
+    program.programId
+  );
+  return donationPdaAddr;
+}
+
+// Helper function to fetch all donation receipts of a project (the project key follows the discriminator)
+async function fetchDonations(program: Program<FundingmeDapp>, project: anchor.web3.PublicKey) {
+  const donations = await program.account.donationAccount.all([
+    { memcmp: { offset: 8, bytes: project.toBase58() } },
+  ]);
+  return donations.map((donation) => donation.account);
+}
+
+// Helper function to create a mint without freeze authority, owned by the SPL Token or Token-2022 program
+async function createMint(payer: anchor.web3.Keypair, tokenProgram: anchor.web3.PublicKey, decimals: number = 6) {
+  const connection = anchor.getProvider().connection;
+  const mint = anchor.web3.Keypair.generate();
+  const mintSpace = 82;
+
+  const transaction = new anchor.web3.Transaction().add(
+    anchor.web3.SystemProgram.createAccount({
+      fromPubkey: payer.publicKey,
+      newAccountPubkey: mint.publicKey,
+      space: mintSpace,
+      lamports: await connection.getMinimumBalanceForRentExemption(mintSpace),
+      programId: tokenProgram,
+    }),
+    // InitializeMint2: decimals, mint authority, no freeze authority
+    new anchor.web3.TransactionInstruction({
+      programId: tokenProgram,
+      keys: [{ pubkey: mint.publicKey, isSigner: false, isWritable: true }],
+      data: Buffer.concat([Buffer.from([20, decimals]), payer.publicKey.toBuffer(), Buffer.from([0])]),
+    })
+  );
+  await anchor.web3.sendAndConfirmTransaction(connection, transaction, [payer, mint], { commitment: "confirmed" });
+  return mint.publicKey;
+}
+
+// Helper function to mint tokens into the associated token account of `owner`, creating it when needed
+async function mintTokens(
+  mintAuthority: anchor.web3.Keypair,
+  mint: anchor.web3.PublicKey,
+  tokenProgram: anchor.web3.PublicKey,
+  owner: anchor.web3.PublicKey,
+  amount: number
+) {
+  const tokenAccount = findAssociatedTokenAddress(owner, mint, tokenProgram);
+  const transaction = new anchor.web3.Transaction().add(
+    createAssociatedTokenAccountIdempotentInstruction(mintAuthority.publicKey, owner, mint, tokenProgram),
+    // MintTo: amount as u64
+    new anchor.web3.TransactionInstruction({
+      programId: tokenProgram,
+      keys: [
+        { pubkey: mint, isSigner: false, isWritable: true },
+        { pubkey: tokenAccount, isSigner: false, isWritable: true },
+        { pubkey: mintAuthority.publicKey, isSigner: true, isWritable: false },
+      ],
+      data: Buffer.concat([Buffer.from([7]), new anchor.BN(amount).toArrayLike(Buffer, "le", 8)]),
+    })
+  );
+  await anchor.web3.sendAndConfirmTransaction(anchor.getProvider().connection, transaction, [mintAuthority], { commitment: "confirmed" });
+  return tokenAccount;
+}
+
+// Helper function to read the raw token amount of a token account
+async function getTokenAmount(tokenAccount: anchor.web3.PublicKey) {
+  const balance = await anchor.getProvider().connection.getTokenAccountBalance(tokenAccount, "confirmed");
+  return Number(balance.value.amount);
+}
 
 // Helper function to create a project
 async function createProject(
   program: Program<FundingmeDapp>, 
   user: anchor.web3.Keypair, 
   projectName: string = "My Project", 
-  financialTarget: number = 1000
+  financialTarget: number = 1000,
+  projectId: number = 0,
+  deadline: number | null = null
 ) {
   // Find the project PDA
-  const [projectAccountPdaAddr] = anchor.web3.PublicKey.findProgramAddressSync(
-    [Buffer.from("project"), user.publicKey.toBuffer()],
-    program.programId
-  );
+  const { projectAccountPdaAddr } = findProjectPdas(program, user.publicKey, projectId);
 
   // Airdrop SOL to the user
   const airdropToUser = await anchor.getProvider().connection.requestAirdrop(
@@ -23,13 +139,14 @@ async function createProject(
   );
   await anchor.getProvider().connection.confirmTransaction(airdropToUser);
 
-  // Create the project
+  // Create the project. Anchor derives the owner counter and the system program but not the project: its seeds read an
+  // owner counter that may not exist yet here, and the project's own fields everywhere else. Every instruction therefore
+  // takes the project through accountsPartial.
   const createProjectTx = await program.methods
-    .createProject(projectName, new anchor.BN(financialTarget))
-    .accounts({
+    .createProject(projectName, new anchor.BN(financialTarget), deadline === null ? null : new anchor.BN(deadline))
+    .accountsPartial({
       user: user.publicKey,
       project: projectAccountPdaAddr,
-      systemProgram: anchor.web3.SystemProgram.programId,
     })
     .signers([user])
     .rpc({ commitment: "confirmed" });
@@ -46,10 +163,7 @@ describe("Should initializate a project", () => {
   const user = anchor.web3.Keypair.generate();
 
   it("Is initialized!", async () => {
-    const [projectAccountPdaAddr] = anchor.web3.PublicKey.findProgramAddressSync(
-      [Buffer.from("project"), user.publicKey.toBuffer()],
-      program.programId
-    );
+    const { ownerAccountPdaAddr, projectAccountPdaAddr } = findProjectPdas(program, user.publicKey);
 
     // Airdrop SOL to the owner to pay for transaction fees
     const airdropSignature = await anchor.getProvider().connection.requestAirdrop(
@@ -60,17 +174,19 @@ describe("Should initializate a project", () => {
 
     // Call the create_project function with required parameters
     const tx = await program.methods
-      .createProject("My Project", new anchor.BN(1000))
-      .accounts({
+      .createProject("My Project", new anchor.BN(1000), null)
+      .accountsPartial({
         user: user.publicKey,
         project: projectAccountPdaAddr,
-        systemProgram: anchor.web3.SystemProgram.programId,
       })
       .signers([user])
       .rpc({ commitment: "confirmed" });
 
     // Fetch the created project account to verify
     const projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    const ownerAccount = await program.account.ownerAccount.fetch(ownerAccountPdaAddr);
+    assert.strictEqual(projectAccount.projectId.toNumber(), 0, "The first project of an owner should have id 0");
+    assert.strictEqual(ownerAccount.projectCount.toNumber(), 1, "The owner project counter should be incremented");
     assert.strictEqual(projectAccount.name, "My Project", "The name of the project should match to: My Project");
     assert.strictEqual(projectAccount.balance.toNumber(), 0, "The project account balance should be initialized with 0");
     assert.strictEqual(projectAccount.financialTarget.toNumber(), 1000, "The financeial target of the project should be initialized with 1000");
@@ -78,6 +194,108 @@ describe("Should initializate a project", () => {
     console.log("Your transaction signature", tx);
     console.log("Project created:", projectAccount);
   });
+
+  it("Should let one owner run multiple projects", async () => {
+    const owner = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+
+    // Create two projects from the same wallet
+    const firstProjectPdaAddr = await createProject(program, owner, "First Project", 1000, 0);
+    const secondProjectPdaAddr = await createProject(program, owner, "Second Project", 5000, 1);
+    assert.ok(!firstProjectPdaAddr.equals(secondProjectPdaAddr), "Each project should get its own PDA");
+
+    const { ownerAccountPdaAddr } = findProjectPdas(program, owner.publicKey);
+    const ownerAccount = await program.account.ownerAccount.fetch(ownerAccountPdaAddr);
+    assert.strictEqual(ownerAccount.projectCount.toNumber(), 2, "The owner should have created 2 projects");
+
+    // Donate to the second project only
+    const airdropDonor = await anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await anchor.getProvider().connection.confirmTransaction(airdropDonor);
+    await program.methods
+      .donate(new anchor.BN(2000))
+      .accountsPartial({
+        user: donor.publicKey,
+        project: secondProjectPdaAddr,
+      })
+      .signers([donor])
+      .rpc({ commitment: "confirmed" });
+
+    const firstProject = await program.account.projectAccount.fetch(firstProjectPdaAddr);
+    const secondProject = await program.account.projectAccount.fetch(secondProjectPdaAddr);
+    assert.strictEqual(firstProject.projectId.toNumber(), 0, "First project should have id 0");
+    assert.strictEqual(secondProject.projectId.toNumber(), 1, "Second project should have id 1");
+    assert.strictEqual(firstProject.balance.toNumber(), 0, "First project balance should be unchanged");
+    assert.strictEqual(secondProject.balance.toNumber(), 2000, "Second project should receive the donation");
+
+    // Re-using an existing project id must fail
+    try {
+      await createProject(program, owner, "Duplicate Id Project", 1000, 0);
+      assert.fail("Creating a project with a stale project id should have failed");
+    } catch (error) {
+      console.log("✅ Project creation with a stale id correctly rejected");
+      assert.ok(error.message.includes("ConstraintSeeds") || error.message.includes("seeds constraint"), "Error should indicate a seeds mismatch");
+    }
+  });
+  it("Should size the project account from its name and keep donations in receipt accounts", async () => {
+    const owner = anchor.web3.Keypair.generate();
+    const donor1 = anchor.web3.Keypair.generate();
+    const donor2 = anchor.web3.Keypair.generate();
+    const connection = anchor.getProvider().connection;
+
+    const projectName = "Sized Project";
+    const projectAccountPdaAddr = await createProject(program, owner, projectName, 1_000_000);
+
+    // Only the bytes of the actual name are allocated
+    let accountInfo = await connection.getAccountInfo(projectAccountPdaAddr);
+    assert.strictEqual(accountInfo.data.length, getProjectAccountSpace(projectName), "Account should be sized from the project name");
+    const projectRent = await connection.getMinimumBalanceForRentExemption(accountInfo.data.length);
+    assert.strictEqual(accountInfo.lamports, projectRent, "Owner should only pay rent for the sized account");
+
+    const airdropPromises = [donor1, donor2].map(donor =>
+      connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL)
+    );
+    const airdropSigs = await Promise.all(airdropPromises);
+    await Promise.all(airdropSigs.map(sig => connection.confirmTransaction(sig)));
+
+    const donate = async (donor: anchor.web3.Keypair, amount: number) => {
+      await program.methods
+        .donate(new anchor.BN(amount))
+        .accountsPartial({
+          user: donor.publicKey,
+          project: projectAccountPdaAddr,
+        })
+        .signers([donor])
+        .rpc({ commitment: "confirmed" });
+      return await connection.getAccountInfo(findDonationPda(program, projectAccountPdaAddr, donor.publicKey));
+    };
+
+    // A new donator pays the rent of their own receipt, the project account does not grow
+    let receiptInfo = await donate(donor1, 1000);
+    const receiptRent = await connection.getMinimumBalanceForRentExemption(receiptInfo.data.length);
+    assert.strictEqual(receiptInfo.lamports, receiptRent, "Receipt should only hold its rent");
+
+    // A repeated donation reuses the receipt
+    receiptInfo = await donate(donor1, 500);
+    assert.strictEqual(receiptInfo.lamports, receiptRent, "Receipt should not be funded again");
+
+    await donate(donor2, 2000);
+    accountInfo = await connection.getAccountInfo(projectAccountPdaAddr);
+    assert.strictEqual(accountInfo.data.length, getProjectAccountSpace(projectName), "Account should not grow for new donators");
+    assert.strictEqual(accountInfo.lamports, projectRent + 3500, "Donations should stay fully refundable on top of the rent");
+  });
+
+  it("Should reject project names longer than the maximum length", async () => {
+    const owner = anchor.web3.Keypair.generate();
+    const maxNameLen = Number(program.idl.constants.find((constant) => constant.name === "maxNameLen").value);
+
+    try {
+      await createProject(program, owner, "x".repeat(maxNameLen + 1), 1000);
+      assert.fail("Creating a project with a too long name should have failed");
+    } catch (error) {
+      console.log("✅ Too long project name correctly rejected");
+      assert.ok(error.message.includes("NameTooLong"), "Error should indicate the name is too long");
+    }
+  });
 });
 
 describe("Donate testings", () => {
@@ -108,7 +326,7 @@ describe("Donate testings", () => {
     const donationAmount = new anchor.BN(100_000_000);
     const tx = await program.methods
       .donate(donationAmount)
-      .accounts({
+      .accountsPartial({
         user: donor.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -165,7 +383,7 @@ describe("Donate testings", () => {
     const donation1Amount = new anchor.BN(50_000_000);
     const donation1Tx = await program.methods
       .donate(donation1Amount)
-      .accounts({
+      .accountsPartial({
         user: donor1.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -178,7 +396,7 @@ describe("Donate testings", () => {
     const donation2Amount = new anchor.BN(150_000_000);
     const donation2Tx = await program.methods
       .donate(donation2Amount)
-      .accounts({
+      .accountsPartial({
         user: donor2.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -226,7 +444,7 @@ describe("Donate testings", () => {
     const donationAmount = new anchor.BN(targetAmount);
     const tx = await program.methods
       .donate(donationAmount)
-      .accounts({
+      .accountsPartial({
         user: donor.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -275,7 +493,7 @@ describe("Donate testings", () => {
     const donationAmount = new anchor.BN(1500);
     const tx = await program.methods
       .donate(donationAmount)
-      .accounts({
+      .accountsPartial({
         user: donor.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -333,7 +551,7 @@ describe("Donate testings", () => {
     const donation1Amount = new anchor.BN(2500);
     const tx1 = await program.methods
       .donate(donation1Amount)
-      .accounts({
+      .accountsPartial({
         user: donor1.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -358,7 +576,7 @@ describe("Donate testings", () => {
     const donation2Amount = new anchor.BN(4000);
     const tx2 = await program.methods
       .donate(donation2Amount)
-      .accounts({
+      .accountsPartial({
         user: donor2.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -406,13 +624,15 @@ describe("Donate testings", () => {
 
     // Get initial project state (should have empty donators list)
     let projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
-    assert.strictEqual(projectAccount.donators.length, 0, "Initial donators list should be empty");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 0, "Initial donator count should be 0");
+    let donations = await fetchDonations(program, projectAccountPdaAddr);
+    assert.strictEqual(donations.length, 0, "Initial donations list should be empty");
 
     // First donation from donor1: 3000 lamports
     const donation1Amount = new anchor.BN(3000);
     const tx1 = await program.methods
       .donate(donation1Amount)
-      .accounts({
+      .accountsPartial({
         user: donor1.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -421,13 +641,15 @@ describe("Donate testings", () => {
 
     // Check after first donation
     projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
-    assert.strictEqual(projectAccount.donators.length, 1, "Should have 1 donator after first donation");
-    assert.strictEqual(projectAccount.donators[0].user.toString(), donor1.publicKey.toString(), "First donator should be donor1");
-    assert.strictEqual(projectAccount.donators[0].amount.toNumber(), 3000, "First donator amount should be 3000");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 1, "Should have 1 donator after first donation");
+    donations = await fetchDonations(program, projectAccountPdaAddr);
+    assert.strictEqual(donations.length, 1, "Should have 1 donation receipt after first donation");
+    assert.strictEqual(donations[0].donator.toString(), donor1.publicKey.toString(), "First donator should be donor1");
+    assert.strictEqual(donations[0].amount.toNumber(), 3000, "First donator amount should be 3000");
 
     console.log("First donation transaction signature:", tx1);
-    console.log("Donators after first donation:", projectAccount.donators.map(d => ({ 
-      user: d.user.toString(), 
+    console.log("Donators after first donation:", donations.map(d => ({ 
+      user: d.donator.toString(), 
       amount: d.amount.toNumber() 
     })));
 
@@ -435,7 +657,7 @@ describe("Donate testings", () => {
     const donation2Amount = new anchor.BN(5000);
     const tx2 = await program.methods
       .donate(donation2Amount)
-      .accounts({
+      .accountsPartial({
         user: donor2.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -444,16 +666,17 @@ describe("Donate testings", () => {
 
     // Check after second donation
     projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
-    assert.strictEqual(projectAccount.donators.length, 2, "Should have 2 donators after second donation");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 2, "Should have 2 donators after second donation");
     
     // Find donor2 in the list
-    const donor2Entry = projectAccount.donators.find(d => d.user.toString() === donor2.publicKey.toString());
+    donations = await fetchDonations(program, projectAccountPdaAddr);
+    const donor2Entry = donations.find(d => d.donator.toString() === donor2.publicKey.toString());
     assert.ok(donor2Entry, "Donor2 should be in the donators list");
     assert.strictEqual(donor2Entry.amount.toNumber(), 5000, "Donor2 amount should be 5000");
 
     console.log("Second donation transaction signature:", tx2);
-    console.log("Donators after second donation:", projectAccount.donators.map(d => ({ 
-      user: d.user.toString(), 
+    console.log("Donators after second donation:", donations.map(d => ({ 
+      user: d.donator.toString(), 
       amount: d.amount.toNumber() 
     })));
 
@@ -461,7 +684,7 @@ describe("Donate testings", () => {
     const donation3Amount = new anchor.BN(2000);
     const tx3 = await program.methods
       .donate(donation3Amount)
-      .accounts({
+      .accountsPartial({
         user: donor1.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -470,16 +693,17 @@ describe("Donate testings", () => {
 
     // Check after third donation (donor1's second donation)
     projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
-    assert.strictEqual(projectAccount.donators.length, 2, "Should still have 2 unique donators");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 2, "Should still have 2 unique donators");
     
     // Find updated donor1 entry
-    const updatedDonor1Entry = projectAccount.donators.find(d => d.user.toString() === donor1.publicKey.toString());
+    donations = await fetchDonations(program, projectAccountPdaAddr);
+    const updatedDonor1Entry = donations.find(d => d.donator.toString() === donor1.publicKey.toString());
     assert.ok(updatedDonor1Entry, "Donor1 should still be in the donators list");
     assert.strictEqual(updatedDonor1Entry.amount.toNumber(), 5000, "Donor1 total amount should be 5000 (3000 + 2000)");
 
     console.log("Third donation transaction signature:", tx3);
-    console.log("Donators after third donation (donor1's cumulative):", projectAccount.donators.map(d => ({ 
-      user: d.user.toString(), 
+    console.log("Donators after third donation (donor1's cumulative):", donations.map(d => ({ 
+      user: d.donator.toString(), 
       amount: d.amount.toNumber() 
     })));
 
@@ -487,7 +711,7 @@ describe("Donate testings", () => {
     const donation4Amount = new anchor.BN(7000);
     const tx4 = await program.methods
       .donate(donation4Amount)
-      .accounts({
+      .accountsPartial({
         user: donor3.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -496,33 +720,96 @@ describe("Donate testings", () => {
 
     // Final verification
     const finalProjectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
-    assert.strictEqual(finalProjectAccount.donators.length, 3, "Should have 3 unique donators at the end");
+    assert.strictEqual(finalProjectAccount.donatorCount.toNumber(), 3, "Should have 3 unique donators at the end");
+    const finalDonations = await fetchDonations(program, projectAccountPdaAddr);
+    assert.strictEqual(finalDonations.length, 3, "Should have 3 donation receipts at the end");
     
     // Verify total balance matches sum of all donations
     const expectedTotalBalance = 3000 + 5000 + 2000 + 7000; // 17000
     assert.strictEqual(finalProjectAccount.balance.toNumber(), expectedTotalBalance, "Total project balance should match sum of all donations");
     
     // Verify individual donator amounts
-    const finalDonor1 = finalProjectAccount.donators.find(d => d.user.toString() === donor1.publicKey.toString());
-    const finalDonor2 = finalProjectAccount.donators.find(d => d.user.toString() === donor2.publicKey.toString());
-    const finalDonor3 = finalProjectAccount.donators.find(d => d.user.toString() === donor3.publicKey.toString());
+    const finalDonor1 = finalDonations.find(d => d.donator.toString() === donor1.publicKey.toString());
+    const finalDonor2 = finalDonations.find(d => d.donator.toString() === donor2.publicKey.toString());
+    const finalDonor3 = finalDonations.find(d => d.donator.toString() === donor3.publicKey.toString());
     
     assert.strictEqual(finalDonor1.amount.toNumber(), 5000, "Donor1 final amount should be 5000");
     assert.strictEqual(finalDonor2.amount.toNumber(), 5000, "Donor2 final amount should be 5000");
     assert.strictEqual(finalDonor3.amount.toNumber(), 7000, "Donor3 final amount should be 7000");
     
     // Verify sum of individual amounts equals total balance
-    const sumOfDonatorAmounts = finalProjectAccount.donators.reduce((sum, donator) => sum + donator.amount.toNumber(), 0);
+    const sumOfDonatorAmounts = finalDonations.reduce((sum, donator) => sum + donator.amount.toNumber(), 0);
     assert.strictEqual(sumOfDonatorAmounts, expectedTotalBalance, "Sum of individual donator amounts should equal total project balance");
 
     console.log("Fourth donation transaction signature:", tx4);
-    console.log("Final donators list:", finalProjectAccount.donators.map(d => ({ 
-      user: d.user.toString(), 
+    console.log("Final donators list:", finalDonations.map(d => ({ 
+      user: d.donator.toString(), 
       amount: d.amount.toNumber() 
     })));
     console.log(`Total project balance: ${finalProjectAccount.balance.toNumber()} lamports`);
     console.log(`Sum of individual donations: ${sumOfDonatorAmounts} lamports`);
-    console.log(`Number of unique donators: ${finalProjectAccount.donators.length}`);
+    console.log(`Number of unique donators: ${finalProjectAccount.donatorCount.toNumber()}`);
+  });
+});
+
+describe("Project account validation", () => {
+  anchor.setProvider(anchor.AnchorProvider.env());
+
+  const program = anchor.workspace.fundingmeDapp as Program<FundingmeDapp>;
+
+  // Decodes as a ProjectAccount but lives at an address that is not the PDA of its owner and project id,
+  // see [[test.validator.account]] in Anchor.toml
+  const spoofedProjectAddr = new anchor.web3.PublicKey("4HrT6Cu1Ctz4txa9Xnfmwyva7XvDR8RRoBHpqoM9sfM7");
+
+  it("Should refuse a project account that is not the canonical PDA", async function () {
+    const spoofedAccountInfo = await anchor.getProvider().connection.getAccountInfo(spoofedProjectAddr);
+    if (!spoofedAccountInfo) {
+      console.log("Spoofed project fixture is only available on the local test validator, skipping");
+      this.skip();
+    }
+
+    const donor = anchor.web3.Keypair.generate();
+    const airdropDonor = await anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await anchor.getProvider().connection.confirmTransaction(airdropDonor);
+
+    // Sanity check: the account decodes as a regular project
+    const spoofedProject = await program.account.projectAccount.fetch(spoofedProjectAddr);
+    const { projectAccountPdaAddr } = findProjectPdas(program, spoofedProject.owner, spoofedProject.projectId.toNumber());
+    assert.ok(!projectAccountPdaAddr.equals(spoofedProjectAddr), "Fixture should not sit at the canonical PDA");
+
+    // Donations to it are refused
+    try {
+      await program.methods
+        .donate(new anchor.BN(1000))
+        .accountsPartial({
+          user: donor.publicKey,
+          project: spoofedProjectAddr,
+        })
+        .signers([donor])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Donating to a non-canonical project account should have failed");
+    } catch (error) {
+      console.log("✅ Donation to non-canonical project account correctly rejected");
+      assert.ok(error.message.includes("ConstraintSeeds") || error.message.includes("seeds constraint"), "Error should indicate a seeds mismatch");
+    }
+
+    // Views on it are refused too
+    try {
+      await program.methods
+        .getDonatorCount()
+        .accountsPartial({
+          user: donor.publicKey,
+          project: spoofedProjectAddr,
+        })
+        .view();
+      assert.fail("Reading a non-canonical project account should have failed");
+    } catch (error) {
+      console.log("✅ View on non-canonical project account correctly rejected");
+      assert.ok(error.message.includes("ConstraintSeeds") || error.message.includes("seeds constraint"), "Error should indicate a seeds mismatch");
+    }
+
+    const donorBalance = await anchor.getProvider().connection.getBalance(donor.publicKey);
+    assert.strictEqual(donorBalance, anchor.web3.LAMPORTS_PER_SOL, "Donor should not have been charged");
   });
 });
 
@@ -557,7 +844,7 @@ describe("Withdraw validation", () => {
     const donation1Amount = new anchor.BN(2000);
     const donation1Tx = await program.methods
       .donate(donation1Amount)
-      .accounts({
+      .accountsPartial({
         user: donor1.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -567,7 +854,7 @@ describe("Withdraw validation", () => {
     const donation2Amount = new anchor.BN(3000);
     const donation2Tx = await program.methods
       .donate(donation2Amount)
-      .accounts({
+      .accountsPartial({
         user: donor2.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -587,7 +874,7 @@ describe("Withdraw validation", () => {
     // Close the project to set status to Success
     const closeProjectTx = await program.methods
       .closeProject()
-      .accounts({
+      .accountsPartial({
         user: user.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -609,10 +896,9 @@ describe("Withdraw validation", () => {
     // Attempt withdrawal by project owner
     const withdrawTx = await program.methods
       .withdraw()
-      .accounts({
+      .accountsPartial({
         user: user.publicKey,
         project: projectAccountPdaAddr,
-        systemProgram: anchor.web3.SystemProgram.programId,
       })
       .signers([user])
       .rpc({ commitment: "confirmed" });
@@ -663,7 +949,7 @@ describe("Withdraw validation", () => {
     // Fund the project to reach target
     await program.methods
       .donate(new anchor.BN(targetAmount))
-      .accounts({
+      .accountsPartial({
         user: donor.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -673,7 +959,7 @@ describe("Withdraw validation", () => {
     // Close project (by owner)
     await program.methods
       .closeProject()
-      .accounts({
+      .accountsPartial({
         user: projectOwner.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -684,10 +970,9 @@ describe("Withdraw validation", () => {
     try {
       await program.methods
         .withdraw()
-        .accounts({
+        .accountsPartial({
           user: unauthorizedUser.publicKey, // Wrong user!
           project: projectAccountPdaAddr,
-          systemProgram: anchor.web3.SystemProgram.programId,
         })
         .signers([unauthorizedUser])
         .rpc({ commitment: "confirmed" });
@@ -720,7 +1005,7 @@ describe("Withdraw validation", () => {
     const partialAmount = 5000; // Only half the target
     await program.methods
       .donate(new anchor.BN(partialAmount))
-      .accounts({
+      .accountsPartial({
         user: donor.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -735,10 +1020,9 @@ describe("Withdraw validation", () => {
     try {
       await program.methods
         .withdraw()
-        .accounts({
+        .accountsPartial({
           user: user.publicKey,
           project: projectAccountPdaAddr,
-          systemProgram: anchor.web3.SystemProgram.programId,
         })
         .signers([user])
         .rpc({ commitment: "confirmed" });
@@ -752,7 +1036,7 @@ describe("Withdraw validation", () => {
     // First, complete the funding
     await program.methods
       .donate(new anchor.BN(targetAmount - partialAmount))
-      .accounts({
+      .accountsPartial({
         user: donor.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -767,10 +1051,9 @@ describe("Withdraw validation", () => {
     try {
       await program.methods
         .withdraw()
-        .accounts({
+        .accountsPartial({
           user: user.publicKey,
           project: projectAccountPdaAddr,
-          systemProgram: anchor.web3.SystemProgram.programId,
         })
         .signers([user])
         .rpc({ commitment: "confirmed" });
@@ -788,140 +1071,391 @@ describe("Withdraw validation", () => {
   });
 });
 
-describe("Refund validation", () => {
+describe("Close validation", () => {
   anchor.setProvider(anchor.AnchorProvider.env());
 
   const program = anchor.workspace.fundingmeDapp as Program<FundingmeDapp>;
 
-  it("Should allow project owner to mark project as failed and enable refunds", async () => {
-    const user = anchor.web3.Keypair.generate();
-    const donor1 = anchor.web3.Keypair.generate();
-    const donor2 = anchor.web3.Keypair.generate();
-    
-    // Create a project that will fail (not reach target)
-    const targetAmount = 10000;
-    const projectAccountPdaAddr = await createProject(program, user, "Failed Project", targetAmount);
+  it("Should reject a stranger closing an Active project", async () => {
+    const projectOwner = anchor.web3.Keypair.generate();
+    const stranger = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
 
-    // Airdrop SOL to donors
-    const airdrop1Promise = anchor.getProvider().connection.requestAirdrop(donor1.publicKey, anchor.web3.LAMPORTS_PER_SOL);
-    const airdrop2Promise = anchor.getProvider().connection.requestAirdrop(donor2.publicKey, anchor.web3.LAMPORTS_PER_SOL);
-    
-    const [airdrop1Sig, airdrop2Sig] = await Promise.all([airdrop1Promise, airdrop2Promise]);
+    // Create a partially funded project
+    const targetAmount = 5000;
+    const projectAccountPdaAddr = await createProject(program, projectOwner, "Stranger Close Project", targetAmount);
+
+    const airdropStranger = await anchor.getProvider().connection.requestAirdrop(stranger.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    const airdropDonor = await anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL);
     await Promise.all([
-      anchor.getProvider().connection.confirmTransaction(airdrop1Sig),
-      anchor.getProvider().connection.confirmTransaction(airdrop2Sig)
+      anchor.getProvider().connection.confirmTransaction(airdropStranger),
+      anchor.getProvider().connection.confirmTransaction(airdropDonor)
     ]);
 
-    // Make donations that don't reach the target
-    const donation1Amount = new anchor.BN(3000);
     await program.methods
-      .donate(donation1Amount)
-      .accounts({
-        user: donor1.publicKey,
+      .donate(new anchor.BN(2000))
+      .accountsPartial({
+        user: donor.publicKey,
         project: projectAccountPdaAddr,
       })
-      .signers([donor1])
+      .signers([donor])
       .rpc({ commitment: "confirmed" });
 
-    const donation2Amount = new anchor.BN(2000);
+    // A stranger tries to fail the campaign (should fail)
+    try {
+      await program.methods
+        .closeProject()
+        .accountsPartial({
+          user: stranger.publicKey, // Not the owner!
+          project: projectAccountPdaAddr,
+        })
+        .signers([stranger])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Closing someone else's project should have failed");
+    } catch (error) {
+      console.log("✅ Close by stranger correctly rejected");
+      assert.ok(error.message.includes("UserNotAuthorized"), "Error should indicate user not authorized");
+    }
+
+    // Donators cannot close the project either
+    try {
+      await program.methods
+        .closeProject()
+        .accountsPartial({
+          user: donor.publicKey,
+          project: projectAccountPdaAddr,
+        })
+        .signers([donor])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Closing a project as a donator should have failed");
+    } catch (error) {
+      console.log("✅ Close by donator correctly rejected");
+      assert.ok(error.message.includes("UserNotAuthorized"), "Error should indicate user not authorized");
+    }
+
+    // Verify the project is still running
+    const projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { active: {} }, "Project status should still be Active");
+    assert.strictEqual(projectAccount.balance.toNumber(), 2000, "Project balance should be unchanged");
+  });
+
+  it("Should reject a stranger closing a project that reached its target", async () => {
+    const projectOwner = anchor.web3.Keypair.generate();
+    const stranger = anchor.web3.Keypair.generate();
+
+    const targetAmount = 2000;
+    const projectAccountPdaAddr = await createProject(program, projectOwner, "Stranger Success Project", targetAmount);
+
+    const airdropStranger = await anchor.getProvider().connection.requestAirdrop(stranger.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await anchor.getProvider().connection.confirmTransaction(airdropStranger);
+
+    // The stranger funds the project, then tries to mark it as Success
     await program.methods
-      .donate(donation2Amount)
-      .accounts({
-        user: donor2.publicKey,
+      .donate(new anchor.BN(targetAmount))
+      .accountsPartial({
+        user: stranger.publicKey,
         project: projectAccountPdaAddr,
       })
-      .signers([donor2])
+      .signers([stranger])
       .rpc({ commitment: "confirmed" });
 
-    // Verify project is still active with partial funding
-    let projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
-    assert.deepStrictEqual(projectAccount.status, { active: {} }, "Project status should be Active");
-    assert.strictEqual(projectAccount.balance.toNumber(), 5000, "Project should have 5000 lamports from donations");
-    assert.strictEqual(projectAccount.donators.length, 2, "Should have 2 donators");
+    try {
+      await program.methods
+        .closeProject()
+        .accountsPartial({
+          user: stranger.publicKey,
+          project: projectAccountPdaAddr,
+        })
+        .signers([stranger])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Closing someone else's project should have failed");
+    } catch (error) {
+      console.log("✅ Close by stranger correctly rejected");
+      assert.ok(error.message.includes("UserNotAuthorized"), "Error should indicate user not authorized");
+    }
 
-    console.log("Project before closure:", {
-      status: projectAccount.status,
-      balance: projectAccount.balance.toNumber(),
-      donators: projectAccount.donators.length
-    });
+    let projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { targetReached: {} }, "Project status should still be TargetReached");
 
-    // Project owner closes the project (marks it as failed)
-    const closeProjectTx = await program.methods
+    // The owner can still close it
+    await program.methods
       .closeProject()
-      .accounts({
-        user: user.publicKey,
+      .accountsPartial({
+        user: projectOwner.publicKey,
         project: projectAccountPdaAddr,
       })
-      .signers([user])
+      .signers([projectOwner])
       .rpc({ commitment: "confirmed" });
 
-    // Verify status changed to Failed
     projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
-    assert.deepStrictEqual(projectAccount.status, { failed: {} }, "Project status should be Failed after closing");
-    assert.strictEqual(projectAccount.balance.toNumber(), 5000, "Project balance should remain unchanged");
-    assert.strictEqual(projectAccount.donators.length, 2, "Donators list should remain unchanged");
-
-    console.log("Close project transaction signature:", closeProjectTx);
-    console.log("Project after closure:", {
-      status: projectAccount.status,
-      balance: projectAccount.balance.toNumber(),
-      donators: projectAccount.donators.length
-    });
+    assert.deepStrictEqual(projectAccount.status, { success: {} }, "Owner close should mark the project as Success");
   });
+});
 
-  it("Should allow individual donators to claim their refunds", async () => {
-    const user = anchor.web3.Keypair.generate();
-    const donor1 = anchor.web3.Keypair.generate();
-    const donor2 = anchor.web3.Keypair.generate();
-    const donor3 = anchor.web3.Keypair.generate();
-    
-    // Create a failed project
-    const targetAmount = 15000;
-    const projectAccountPdaAddr = await createProject(program, user, "Refund Test Project", targetAmount);
+describe("Closed project donations", () => {
+  anchor.setProvider(anchor.AnchorProvider.env());
 
-    // Airdrop SOL to all participants
-    const airdropPromises = [donor1, donor2, donor3].map(donor => 
-      anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL)
-    );
-    const airdropSigs = await Promise.all(airdropPromises);
-    await Promise.all(airdropSigs.map(sig => anchor.getProvider().connection.confirmTransaction(sig)));
+  const program = anchor.workspace.fundingmeDapp as Program<FundingmeDapp>;
 
-    // Multiple donations from different donors
-    const donation1Amount = new anchor.BN(4000);
-    await program.methods
-      .donate(donation1Amount)
-      .accounts({
-        user: donor1.publicKey,
-        project: projectAccountPdaAddr,
+  // Helper function to donate lamports from a donor to a project
+  async function donate(donor: anchor.web3.Keypair, project: anchor.web3.PublicKey, amount: number) {
+    return await program.methods
+      .donate(new anchor.BN(amount))
+      .accountsPartial({
+        user: donor.publicKey,
+        project,
       })
-      .signers([donor1])
+      .signers([donor])
       .rpc({ commitment: "confirmed" });
+  }
 
-    const donation2Amount = new anchor.BN(3000);
-    await program.methods
-      .donate(donation2Amount)
-      .accounts({
-        user: donor2.publicKey,
-        project: projectAccountPdaAddr,
+  // Helper function to close a project as its owner
+  async function closeProject(owner: anchor.web3.Keypair, project: anchor.web3.PublicKey) {
+    return await program.methods
+      .closeProject()
+      .accountsPartial({
+        user: owner.publicKey,
+        project,
       })
-      .signers([donor2])
+      .signers([owner])
       .rpc({ commitment: "confirmed" });
+  }
 
-    // Donor1 donates again (should accumulate)
-    const donation3Amount = new anchor.BN(2000);
+  it("Should reject donations to a Failed project, even from its owner", async () => {
+    const projectOwner = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+
+    const targetAmount = 5000;
+    const projectAccountPdaAddr = await createProject(program, projectOwner, "Failed Donation Project", targetAmount);
+
+    const airdropDonor = await anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await anchor.getProvider().connection.confirmTransaction(airdropDonor);
+
+    await donate(donor, projectAccountPdaAddr, 2000);
+    await closeProject(projectOwner, projectAccountPdaAddr);
+
+    // Funding the shortfall must not turn the failed project into one the owner can withdraw
+    try {
+      await donate(projectOwner, projectAccountPdaAddr, 3000);
+      assert.fail("Donating to a failed project should have failed");
+    } catch (error) {
+      console.log("✅ Donation to failed project correctly rejected");
+      assert.ok(error.message.includes("DonationsClosed"), "Error should indicate the project is closed");
+    }
+
+    const projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { failed: {} }, "Project status should still be Failed");
+    assert.strictEqual(projectAccount.balance.toNumber(), 2000, "Project balance should be unchanged");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 1, "Donator count should be unchanged");
+
+    // The donor can still claim a refund
     await program.methods
-      .donate(donation3Amount)
-      .accounts({
-        user: donor1.publicKey,
+      .claimRefund()
+      .accountsPartial({
+        donator: donor.publicKey,
         project: projectAccountPdaAddr,
       })
-      .signers([donor1])
+      .signers([donor])
+      .rpc({ commitment: "confirmed" });
+
+    const refundedProject = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.strictEqual(refundedProject.balance.toNumber(), 0, "The refund should empty the project");
+  });
+
+  it("Should reject donations to a Successful project", async () => {
+    const projectOwner = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+
+    const targetAmount = 2000;
+    const projectAccountPdaAddr = await createProject(program, projectOwner, "Success Donation Project", targetAmount);
+
+    const airdropDonor = await anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await anchor.getProvider().connection.confirmTransaction(airdropDonor);
+
+    await donate(donor, projectAccountPdaAddr, targetAmount);
+    await closeProject(projectOwner, projectAccountPdaAddr);
+
+    try {
+      await donate(donor, projectAccountPdaAddr, 1000);
+      assert.fail("Donating to a successful project should have failed");
+    } catch (error) {
+      console.log("✅ Donation to successful project correctly rejected");
+      assert.ok(error.message.includes("DonationsClosed"), "Error should indicate the project is closed");
+    }
+
+    const projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { success: {} }, "Project status should still be Success");
+    assert.strictEqual(projectAccount.balance.toNumber(), targetAmount, "Project balance should be unchanged");
+  });
+
+  it("Should reject donations to a Paused project that reached its target", async () => {
+    const projectOwner = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+
+    const targetAmount = 2000;
+    const projectAccountPdaAddr = await createProject(program, projectOwner, "Paused Donation Project", targetAmount);
+
+    const airdropDonor = await anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await anchor.getProvider().connection.confirmTransaction(airdropDonor);
+
+    await donate(donor, projectAccountPdaAddr, targetAmount);
+    await program.methods
+      .pauseProject()
+      .accountsPartial({
+        user: projectOwner.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([projectOwner])
+      .rpc({ commitment: "confirmed" });
+
+    try {
+      await donate(donor, projectAccountPdaAddr, 1000);
+      assert.fail("Donating to a paused project should have failed");
+    } catch (error) {
+      console.log("✅ Donation to paused project correctly rejected");
+      assert.ok(error.message.includes("ProjectPaused"), "Error should indicate the project is paused");
+    }
+
+    const projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { paused: {} }, "Project status should still be Paused");
+    assert.strictEqual(projectAccount.balance.toNumber(), targetAmount, "Project balance should be unchanged");
+  });
+});
+
+describe("Refund validation", () => {
+  anchor.setProvider(anchor.AnchorProvider.env());
+
+  const program = anchor.workspace.fundingmeDapp as Program<FundingmeDapp>;
+
+  it("Should allow project owner to mark project as failed and enable refunds", async () => {
+    const user = anchor.web3.Keypair.generate();
+    const donor1 = anchor.web3.Keypair.generate();
+    const donor2 = anchor.web3.Keypair.generate();
+    
+    // Create a project that will fail (not reach target)
+    const targetAmount = 10000;
+    const projectAccountPdaAddr = await createProject(program, user, "Failed Project", targetAmount);
+
+    // Airdrop SOL to donors
+    const airdrop1Promise = anchor.getProvider().connection.requestAirdrop(donor1.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    const airdrop2Promise = anchor.getProvider().connection.requestAirdrop(donor2.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    
+    const [airdrop1Sig, airdrop2Sig] = await Promise.all([airdrop1Promise, airdrop2Promise]);
+    await Promise.all([
+      anchor.getProvider().connection.confirmTransaction(airdrop1Sig),
+      anchor.getProvider().connection.confirmTransaction(airdrop2Sig)
+    ]);
+
+    // Make donations that don't reach the target
+    const donation1Amount = new anchor.BN(3000);
+    await program.methods
+      .donate(donation1Amount)
+      .accountsPartial({
+        user: donor1.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([donor1])
+      .rpc({ commitment: "confirmed" });
+
+    const donation2Amount = new anchor.BN(2000);
+    await program.methods
+      .donate(donation2Amount)
+      .accountsPartial({
+        user: donor2.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([donor2])
+      .rpc({ commitment: "confirmed" });
+
+    // Verify project is still active with partial funding
+    let projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { active: {} }, "Project status should be Active");
+    assert.strictEqual(projectAccount.balance.toNumber(), 5000, "Project should have 5000 lamports from donations");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 2, "Should have 2 donators");
+
+    console.log("Project before closure:", {
+      status: projectAccount.status,
+      balance: projectAccount.balance.toNumber(),
+      donators: projectAccount.donatorCount.toNumber()
+    });
+
+    // Project owner closes the project (marks it as failed)
+    const closeProjectTx = await program.methods
+      .closeProject()
+      .accountsPartial({
+        user: user.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([user])
+      .rpc({ commitment: "confirmed" });
+
+    // Verify status changed to Failed
+    projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { failed: {} }, "Project status should be Failed after closing");
+    assert.strictEqual(projectAccount.balance.toNumber(), 5000, "Project balance should remain unchanged");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 2, "Donators list should remain unchanged");
+
+    console.log("Close project transaction signature:", closeProjectTx);
+    console.log("Project after closure:", {
+      status: projectAccount.status,
+      balance: projectAccount.balance.toNumber(),
+      donators: projectAccount.donatorCount.toNumber()
+    });
+  });
+
+  it("Should allow individual donators to claim their refunds", async () => {
+    const user = anchor.web3.Keypair.generate();
+    const donor1 = anchor.web3.Keypair.generate();
+    const donor2 = anchor.web3.Keypair.generate();
+    const donor3 = anchor.web3.Keypair.generate();
+    
+    // Create a failed project
+    const targetAmount = 15000;
+    const projectAccountPdaAddr = await createProject(program, user, "Refund Test Project", targetAmount);
+
+    // Airdrop SOL to all participants
+    const airdropPromises = [donor1, donor2, donor3].map(donor => 
+      anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL)
+    );
+    const airdropSigs = await Promise.all(airdropPromises);
+    await Promise.all(airdropSigs.map(sig => anchor.getProvider().connection.confirmTransaction(sig)));
+
+    // Multiple donations from different donors
+    const donation1Amount = new anchor.BN(4000);
+    await program.methods
+      .donate(donation1Amount)
+      .accountsPartial({
+        user: donor1.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([donor1])
+      .rpc({ commitment: "confirmed" });
+
+    const donation2Amount = new anchor.BN(3000);
+    await program.methods
+      .donate(donation2Amount)
+      .accountsPartial({
+        user: donor2.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([donor2])
+      .rpc({ commitment: "confirmed" });
+
+    // Donor1 donates again (should accumulate)
+    const donation3Amount = new anchor.BN(2000);
+    await program.methods
+      .donate(donation3Amount)
+      .accountsPartial({
+        user: donor1.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([donor1])
       .rpc({ commitment: "confirmed" });
 
     const donation4Amount = new anchor.BN(1000);
     await program.methods
       .donate(donation4Amount)
-      .accounts({
+      .accountsPartial({
         user: donor3.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -931,7 +1465,7 @@ describe("Refund validation", () => {
     // Mark project as failed
     await program.methods
       .closeProject()
-      .accounts({
+      .accountsPartial({
         user: user.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -942,7 +1476,7 @@ describe("Refund validation", () => {
     let projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
     assert.deepStrictEqual(projectAccount.status, { failed: {} }, "Project should be Failed");
     assert.strictEqual(projectAccount.balance.toNumber(), 10000, "Total project balance should be 10000");
-    assert.strictEqual(projectAccount.donators.length, 3, "Should have 3 unique donators");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 3, "Should have 3 unique donators");
 
     // Get initial balances before refunds
     const initialDonor1Balance = await anchor.getProvider().connection.getBalance(donor1.publicKey);
@@ -954,16 +1488,15 @@ describe("Refund validation", () => {
       donor2Balance: initialDonor2Balance,
       donor3Balance: initialDonor3Balance,
       projectBalance: projectAccount.balance.toNumber(),
-      donators: projectAccount.donators.map(d => ({ user: d.user.toString(), amount: d.amount.toNumber() }))
+      donators: (await fetchDonations(program, projectAccountPdaAddr)).map(d => ({ user: d.donator.toString(), amount: d.amount.toNumber() }))
     });
 
     // Donor1 claims refund (should get 6000: 4000 + 2000)
     const refund1Tx = await program.methods
       .claimRefund()
-      .accounts({
+      .accountsPartial({
         donator: donor1.publicKey,
         project: projectAccountPdaAddr,
-        systemProgram: anchor.web3.SystemProgram.programId,
       })
       .signers([donor1])
       .rpc({ commitment: "confirmed" });
@@ -972,7 +1505,7 @@ describe("Refund validation", () => {
     projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
     const finalDonor1Balance = await anchor.getProvider().connection.getBalance(donor1.publicKey);
     
-    assert.strictEqual(projectAccount.donators.length, 2, "Should have 2 donators left after first refund");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 2, "Should have 2 donators left after first refund");
     assert.strictEqual(projectAccount.balance.toNumber(), 4000, "Project balance should decrease by 6000");
     assert.ok(finalDonor1Balance > initialDonor1Balance, "Donor1 balance should increase (accounting for transaction fees)");
     
@@ -980,16 +1513,15 @@ describe("Refund validation", () => {
       transactionSignature: refund1Tx,
       donor1BalanceIncrease: finalDonor1Balance - initialDonor1Balance,
       projectBalance: projectAccount.balance.toNumber(),
-      remainingDonators: projectAccount.donators.length
+      remainingDonators: projectAccount.donatorCount.toNumber()
     });
 
     // Donor2 claims refund (should get 3000)
     const refund2Tx = await program.methods
       .claimRefund()
-      .accounts({
+      .accountsPartial({
         donator: donor2.publicKey,
         project: projectAccountPdaAddr,
-        systemProgram: anchor.web3.SystemProgram.programId,
       })
       .signers([donor2])
       .rpc({ commitment: "confirmed" });
@@ -998,7 +1530,7 @@ describe("Refund validation", () => {
     projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
     const finalDonor2Balance = await anchor.getProvider().connection.getBalance(donor2.publicKey);
     
-    assert.strictEqual(projectAccount.donators.length, 1, "Should have 1 donator left after second refund");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 1, "Should have 1 donator left after second refund");
     assert.strictEqual(projectAccount.balance.toNumber(), 1000, "Project balance should decrease by 3000");
     assert.ok(finalDonor2Balance > initialDonor2Balance, "Donor2 balance should increase (accounting for transaction fees)");
     
@@ -1006,16 +1538,15 @@ describe("Refund validation", () => {
       transactionSignature: refund2Tx,
       donor2BalanceIncrease: finalDonor2Balance - initialDonor2Balance,
       projectBalance: projectAccount.balance.toNumber(),
-      remainingDonators: projectAccount.donators.length
+      remainingDonators: projectAccount.donatorCount.toNumber()
     });
 
     // Donor3 claims refund (should get 1000)
     const refund3Tx = await program.methods
       .claimRefund()
-      .accounts({
+      .accountsPartial({
         donator: donor3.publicKey,
         project: projectAccountPdaAddr,
-        systemProgram: anchor.web3.SystemProgram.programId,
       })
       .signers([donor3])
       .rpc({ commitment: "confirmed" });
@@ -1024,7 +1555,7 @@ describe("Refund validation", () => {
     projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
     const finalDonor3Balance = await anchor.getProvider().connection.getBalance(donor3.publicKey);
     
-    assert.strictEqual(projectAccount.donators.length, 0, "Should have no donators left after all refunds");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 0, "Should have no donators left after all refunds");
     assert.strictEqual(projectAccount.balance.toNumber(), 0, "Project balance should be zero after all refunds");
     assert.ok(finalDonor3Balance > initialDonor3Balance, "Donor3 balance should increase (accounting for transaction fees)");
     
@@ -1032,7 +1563,7 @@ describe("Refund validation", () => {
       transactionSignature: refund3Tx,
       donor3BalanceIncrease: finalDonor3Balance - initialDonor3Balance,
       projectBalance: projectAccount.balance.toNumber(),
-      remainingDonators: projectAccount.donators.length
+      remainingDonators: projectAccount.donatorCount.toNumber()
     });
 
     console.log("All refunds completed successfully! ✅");
@@ -1058,7 +1589,7 @@ describe("Refund validation", () => {
     // Only donor makes a donation
     await program.methods
       .donate(new anchor.BN(2000))
-      .accounts({
+      .accountsPartial({
         user: donor.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -1068,7 +1599,7 @@ describe("Refund validation", () => {
     // Mark project as failed
     await program.methods
       .closeProject()
-      .accounts({
+      .accountsPartial({
         user: user.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -1079,22 +1610,21 @@ describe("Refund validation", () => {
     try {
       await program.methods
         .claimRefund()
-        .accounts({
+        .accountsPartial({
           donator: nonDonor.publicKey,
           project: projectAccountPdaAddr,
-          systemProgram: anchor.web3.SystemProgram.programId,
         })
         .signers([nonDonor])
         .rpc({ commitment: "confirmed" });
       assert.fail("Non-donator refund claim should have failed");
     } catch (error) {
       console.log("✅ Non-donator refund claim correctly rejected");
-      assert.ok(error.message.includes("UserNotAuthorized"), "Error should indicate user not authorized");
+      assert.ok(error.message.includes("AccountNotInitialized"), "Error should indicate the donation receipt does not exist");
     }
 
     // Verify project state is unchanged
     const projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
-    assert.strictEqual(projectAccount.donators.length, 1, "Should still have 1 donator");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 1, "Should still have 1 donator");
     assert.strictEqual(projectAccount.balance.toNumber(), 2000, "Project balance should be unchanged");
   });
 
@@ -1113,7 +1643,7 @@ describe("Refund validation", () => {
     // Donate to reach target
     await program.methods
       .donate(new anchor.BN(targetAmount))
-      .accounts({
+      .accountsPartial({
         user: donor.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -1123,7 +1653,7 @@ describe("Refund validation", () => {
     // Close project successfully (should set status to Success)
     await program.methods
       .closeProject()
-      .accounts({
+      .accountsPartial({
         user: user.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -1138,10 +1668,9 @@ describe("Refund validation", () => {
     try {
       await program.methods
         .claimRefund()
-        .accounts({
+        .accountsPartial({
           donator: donor.publicKey,
           project: projectAccountPdaAddr,
-          systemProgram: anchor.web3.SystemProgram.programId,
         })
         .signers([donor])
         .rpc({ commitment: "confirmed" });
@@ -1174,7 +1703,7 @@ describe("Refund validation", () => {
     // Make donation
     await program.methods
       .donate(new anchor.BN(3000))
-      .accounts({
+      .accountsPartial({
         user: donor.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -1184,7 +1713,7 @@ describe("Refund validation", () => {
     // Mark project as failed
     await program.methods
       .closeProject()
-      .accounts({
+      .accountsPartial({
         user: user.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -1194,10 +1723,9 @@ describe("Refund validation", () => {
     // First refund claim (should succeed)
     const refundTx = await program.methods
       .claimRefund()
-      .accounts({
+      .accountsPartial({
         donator: donor.publicKey,
         project: projectAccountPdaAddr,
-        systemProgram: anchor.web3.SystemProgram.programId,
       })
       .signers([donor])
       .rpc({ commitment: "confirmed" });
@@ -1206,23 +1734,24 @@ describe("Refund validation", () => {
 
     // Verify donor is removed from list
     const projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
-    assert.strictEqual(projectAccount.donators.length, 0, "Donor should be removed after refund");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 0, "Donor should be removed after refund");
+    const receiptInfo = await anchor.getProvider().connection.getAccountInfo(findDonationPda(program, projectAccountPdaAddr, donor.publicKey));
+    assert.strictEqual(receiptInfo, null, "Donation receipt should be closed after refund");
 
     // Try to claim refund again (should fail)
     try {
       await program.methods
         .claimRefund()
-        .accounts({
+        .accountsPartial({
           donator: donor.publicKey,
           project: projectAccountPdaAddr,
-          systemProgram: anchor.web3.SystemProgram.programId,
         })
         .signers([donor])
         .rpc({ commitment: "confirmed" });
       assert.fail("Duplicate refund claim should have failed");
     } catch (error) {
       console.log("✅ Duplicate refund claim correctly rejected");
-      assert.ok(error.message.includes("UserNotAuthorized"), "Error should indicate user not authorized (not in donators list)");
+      assert.ok(error.message.includes("AccountNotInitialized"), "Error should indicate the donation receipt was closed");
     }
   });
 
@@ -1246,7 +1775,7 @@ describe("Refund validation", () => {
     // Make donations
     await program.methods
       .donate(new anchor.BN(2000))
-      .accounts({
+      .accountsPartial({
         user: donor1.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -1255,7 +1784,7 @@ describe("Refund validation", () => {
 
     await program.methods
       .donate(new anchor.BN(1500))
-      .accounts({
+      .accountsPartial({
         user: donor2.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -1265,7 +1794,7 @@ describe("Refund validation", () => {
     // Mark project as failed
     await program.methods
       .closeProject()
-      .accounts({
+      .accountsPartial({
         user: user.publicKey,
         project: projectAccountPdaAddr,
       })
@@ -1276,10 +1805,9 @@ describe("Refund validation", () => {
     try {
       await program.methods
         .closeFailedProject()
-        .accounts({
+        .accountsPartial({
           user: user.publicKey,
           project: projectAccountPdaAddr,
-          systemProgram: anchor.web3.SystemProgram.programId,
         })
         .signers([user])
         .rpc({ commitment: "confirmed" });
@@ -1292,20 +1820,18 @@ describe("Refund validation", () => {
     // Process all refunds
     await program.methods
       .claimRefund()
-      .accounts({
+      .accountsPartial({
         donator: donor1.publicKey,
         project: projectAccountPdaAddr,
-        systemProgram: anchor.web3.SystemProgram.programId,
       })
       .signers([donor1])
       .rpc({ commitment: "confirmed" });
 
     await program.methods
       .claimRefund()
-      .accounts({
+      .accountsPartial({
         donator: donor2.publicKey,
         project: projectAccountPdaAddr,
-        systemProgram: anchor.web3.SystemProgram.programId,
       })
       .signers([donor2])
       .rpc({ commitment: "confirmed" });
@@ -1315,10 +1841,9 @@ describe("Refund validation", () => {
     
     const closeTx = await program.methods
       .closeFailedProject()
-      .accounts({
+      .accountsPartial({
         user: user.publicKey,
         project: projectAccountPdaAddr,
-        systemProgram: anchor.web3.SystemProgram.programId,
       })
       .signers([user])
       .rpc({ commitment: "confirmed" });
@@ -1340,3 +1865,1249 @@ describe("Refund validation", () => {
     console.log(`Owner received rent recovery: ${finalOwnerBalance - initialOwnerBalance} lamports`);
   });
 });
+
+describe("Pause validation", () => {
+  anchor.setProvider(anchor.AnchorProvider.env());
+
+  const program = anchor.workspace.fundingmeDapp as Program<FundingmeDapp>;
+
+  it("Should block donations while paused and accept them again after resume", async () => {
+    const user = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+
+    const projectAccountPdaAddr = await createProject(program, user, "Pausable Project", 5000);
+
+    const airdropDonor = await anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await anchor.getProvider().connection.confirmTransaction(airdropDonor);
+
+    // Owner pauses the project
+    await program.methods
+      .pauseProject()
+      .accountsPartial({
+        user: user.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([user])
+      .rpc({ commitment: "confirmed" });
+
+    let projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { paused: {} }, "Project status should be Paused");
+
+    // Donations are rejected while paused
+    try {
+      await program.methods
+        .donate(new anchor.BN(1000))
+        .accountsPartial({
+          user: donor.publicKey,
+          project: projectAccountPdaAddr,
+        })
+        .signers([donor])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Donating to a paused project should have failed");
+    } catch (error) {
+      console.log("✅ Donation to paused project correctly rejected");
+      assert.ok(error.message.includes("ProjectPaused"), "Error should indicate the project is paused");
+    }
+
+    // Pausing twice is not allowed
+    try {
+      await program.methods
+        .pauseProject()
+        .accountsPartial({
+          user: user.publicKey,
+          project: projectAccountPdaAddr,
+        })
+        .signers([user])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Pausing a paused project should have failed");
+    } catch (error) {
+      console.log("✅ Second pause correctly rejected");
+      assert.ok(error.message.includes("InvalidProjectStatus"), "Error should indicate invalid project status");
+    }
+
+    // Owner resumes the project and donations go through again
+    await program.methods
+      .resumeProject()
+      .accountsPartial({
+        user: user.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([user])
+      .rpc({ commitment: "confirmed" });
+
+    projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { active: {} }, "Project should be Active again after resume");
+
+    await program.methods
+      .donate(new anchor.BN(1000))
+      .accountsPartial({
+        user: donor.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([donor])
+      .rpc({ commitment: "confirmed" });
+
+    projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.strictEqual(projectAccount.balance.toNumber(), 1000, "Donation after resume should be accepted");
+
+    // Resuming an active project is not allowed
+    try {
+      await program.methods
+        .resumeProject()
+        .accountsPartial({
+          user: user.publicKey,
+          project: projectAccountPdaAddr,
+        })
+        .signers([user])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Resuming an active project should have failed");
+    } catch (error) {
+      console.log("✅ Resume of active project correctly rejected");
+      assert.ok(error.message.includes("InvalidProjectStatus"), "Error should indicate invalid project status");
+    }
+  });
+
+  it("Should resume a funded project as TargetReached and close it as Success", async () => {
+    const user = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+
+    const targetAmount = 5000;
+    const projectAccountPdaAddr = await createProject(program, user, "Funded Pausable Project", targetAmount);
+
+    const airdropDonor = await anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await anchor.getProvider().connection.confirmTransaction(airdropDonor);
+
+    await program.methods
+      .donate(new anchor.BN(targetAmount))
+      .accountsPartial({
+        user: donor.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([donor])
+      .rpc({ commitment: "confirmed" });
+
+    // Pause and resume restores TargetReached from the balance
+    await program.methods
+      .pauseProject()
+      .accountsPartial({
+        user: user.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([user])
+      .rpc({ commitment: "confirmed" });
+    await program.methods
+      .resumeProject()
+      .accountsPartial({
+        user: user.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([user])
+      .rpc({ commitment: "confirmed" });
+
+    let projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { targetReached: {} }, "Funded project should resume as TargetReached");
+
+    // Closing while paused behaves like closing from TargetReached
+    await program.methods
+      .pauseProject()
+      .accountsPartial({
+        user: user.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([user])
+      .rpc({ commitment: "confirmed" });
+    await program.methods
+      .closeProject()
+      .accountsPartial({
+        user: user.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([user])
+      .rpc({ commitment: "confirmed" });
+
+    projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { success: {} }, "Closing a paused funded project should mark it Success");
+  });
+
+  it("Should close a paused underfunded project as Failed and allow refunds", async () => {
+    const user = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+
+    const projectAccountPdaAddr = await createProject(program, user, "Paused Failing Project", 5000);
+
+    const airdropDonor = await anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await anchor.getProvider().connection.confirmTransaction(airdropDonor);
+
+    await program.methods
+      .donate(new anchor.BN(2000))
+      .accountsPartial({
+        user: donor.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([donor])
+      .rpc({ commitment: "confirmed" });
+
+    await program.methods
+      .pauseProject()
+      .accountsPartial({
+        user: user.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([user])
+      .rpc({ commitment: "confirmed" });
+    await program.methods
+      .closeProject()
+      .accountsPartial({
+        user: user.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([user])
+      .rpc({ commitment: "confirmed" });
+
+    let projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { failed: {} }, "Closing a paused underfunded project should mark it Failed");
+
+    await program.methods
+      .claimRefund()
+      .accountsPartial({
+        donator: donor.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([donor])
+      .rpc({ commitment: "confirmed" });
+
+    projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 0, "Donator should be refunded");
+    assert.strictEqual(projectAccount.balance.toNumber(), 0, "Project balance should be 0 after refund");
+  });
+
+  it("Should reject pause and resume from non-owners", async () => {
+    const user = anchor.web3.Keypair.generate();
+    const stranger = anchor.web3.Keypair.generate();
+
+    const projectAccountPdaAddr = await createProject(program, user, "Owner Pause Project", 5000);
+
+    const airdropStranger = await anchor.getProvider().connection.requestAirdrop(stranger.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await anchor.getProvider().connection.confirmTransaction(airdropStranger);
+
+    try {
+      await program.methods
+        .pauseProject()
+        .accountsPartial({
+          user: stranger.publicKey,
+          project: projectAccountPdaAddr,
+        })
+        .signers([stranger])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Pausing someone else's project should have failed");
+    } catch (error) {
+      console.log("✅ Pause by non-owner correctly rejected");
+      assert.ok(error.message.includes("UserNotAuthorized"), "Error should indicate user not authorized");
+    }
+
+    await program.methods
+      .pauseProject()
+      .accountsPartial({
+        user: user.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([user])
+      .rpc({ commitment: "confirmed" });
+
+    try {
+      await program.methods
+        .resumeProject()
+        .accountsPartial({
+          user: stranger.publicKey,
+          project: projectAccountPdaAddr,
+        })
+        .signers([stranger])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Resuming someone else's project should have failed");
+    } catch (error) {
+      console.log("✅ Resume by non-owner correctly rejected");
+      assert.ok(error.message.includes("UserNotAuthorized"), "Error should indicate user not authorized");
+    }
+
+    const projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { paused: {} }, "Project should stay Paused");
+  });
+});
+
+describe("Deadline validation", () => {
+  anchor.setProvider(anchor.AnchorProvider.env());
+
+  const program = anchor.workspace.fundingmeDapp as Program<FundingmeDapp>;
+
+  it("Should store the deadline and reject deadlines in the past", async () => {
+    const user = anchor.web3.Keypair.generate();
+    const now = await getClusterTime();
+
+    // A project with a deadline one day from now
+    const deadline = now + 24 * 60 * 60;
+    const projectAccountPdaAddr = await createProject(program, user, "Deadline Project", 5000, 0, deadline);
+    const projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.strictEqual(projectAccount.deadline.toNumber(), deadline, "Deadline should be stored on the project");
+
+    // Projects without a deadline keep it empty
+    const noDeadlinePdaAddr = await createProject(program, user, "No Deadline Project", 5000, 1);
+    const noDeadlineAccount = await program.account.projectAccount.fetch(noDeadlinePdaAddr);
+    assert.strictEqual(noDeadlineAccount.deadline, null, "Deadline should be empty when not provided");
+
+    // A deadline in the past must be rejected
+    try {
+      await createProject(program, user, "Past Deadline Project", 5000, 2, now - 60);
+      assert.fail("Creating a project with a past deadline should have failed");
+    } catch (error) {
+      console.log("✅ Past deadline correctly rejected");
+      assert.ok(error.message.includes("InvalidDeadline"), "Error should indicate an invalid deadline");
+    }
+  });
+
+  it("Should reject donations after the deadline and let anyone finalize a failed project", async () => {
+    const user = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+    const stranger = anchor.web3.Keypair.generate();
+
+    const deadline = (await getClusterTime()) + 3;
+    const projectAccountPdaAddr = await createProject(program, user, "Expiring Project", 5000, 0, deadline);
+
+    const airdropDonor = await anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    const airdropStranger = await anchor.getProvider().connection.requestAirdrop(stranger.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await Promise.all([
+      anchor.getProvider().connection.confirmTransaction(airdropDonor),
+      anchor.getProvider().connection.confirmTransaction(airdropStranger)
+    ]);
+
+    // Donate below target before the deadline
+    await program.methods
+      .donate(new anchor.BN(2000))
+      .accountsPartial({
+        user: donor.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([donor])
+      .rpc({ commitment: "confirmed" });
+
+    // Finalizing before the deadline must fail
+    try {
+      await program.methods
+        .finalizeProject()
+        .accountsPartial({
+          user: stranger.publicKey,
+          project: projectAccountPdaAddr,
+        })
+        .signers([stranger])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Finalizing before the deadline should have failed");
+    } catch (error) {
+      console.log("✅ Early finalize correctly rejected");
+      assert.ok(error.message.includes("DeadlineNotReached"), "Error should indicate the deadline is not reached");
+    }
+
+    await waitForClusterTime(deadline);
+
+    // Donations after the deadline must fail
+    try {
+      await program.methods
+        .donate(new anchor.BN(3000))
+        .accountsPartial({
+          user: donor.publicKey,
+          project: projectAccountPdaAddr,
+        })
+        .signers([donor])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Donating after the deadline should have failed");
+    } catch (error) {
+      console.log("✅ Donation after the deadline correctly rejected");
+      assert.ok(error.message.includes("DeadlinePassed"), "Error should indicate the deadline has passed");
+    }
+
+    // A wallet that is neither owner nor donator finalizes the project
+    await program.methods
+      .finalizeProject()
+      .accountsPartial({
+        user: stranger.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([stranger])
+      .rpc({ commitment: "confirmed" });
+
+    let projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { failed: {} }, "Project below target should be Failed after finalize");
+    assert.strictEqual(projectAccount.balance.toNumber(), 2000, "Balance should only contain the donation made before the deadline");
+
+    // Refunds work as for a project closed by its owner
+    await program.methods
+      .claimRefund()
+      .accountsPartial({
+        donator: donor.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([donor])
+      .rpc({ commitment: "confirmed" });
+
+    projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 0, "Donator should be refunded after finalize");
+
+    // A finalized project cannot be finalized again
+    try {
+      await program.methods
+        .finalizeProject()
+        .accountsPartial({
+          user: stranger.publicKey,
+          project: projectAccountPdaAddr,
+        })
+        .signers([stranger])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Finalizing twice should have failed");
+    } catch (error) {
+      console.log("✅ Second finalize correctly rejected");
+      assert.ok(error.message.includes("InvalidProjectStatus"), "Error should indicate invalid project status");
+    }
+  });
+
+  it("Should finalize a funded project as Success after the deadline", async () => {
+    const user = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+
+    const targetAmount = 5000;
+    const deadline = (await getClusterTime()) + 3;
+    const projectAccountPdaAddr = await createProject(program, user, "Funded Expiring Project", targetAmount, 0, deadline);
+
+    const airdropDonor = await anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await anchor.getProvider().connection.confirmTransaction(airdropDonor);
+
+    await program.methods
+      .donate(new anchor.BN(targetAmount))
+      .accountsPartial({
+        user: donor.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([donor])
+      .rpc({ commitment: "confirmed" });
+
+    await waitForClusterTime(deadline);
+
+    // The donor finalizes, then the owner withdraws
+    await program.methods
+      .finalizeProject()
+      .accountsPartial({
+        user: donor.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([donor])
+      .rpc({ commitment: "confirmed" });
+
+    const projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.deepStrictEqual(projectAccount.status, { success: {} }, "Funded project should be Success after finalize");
+
+    await program.methods
+      .withdraw()
+      .accountsPartial({
+        user: user.publicKey,
+        project: projectAccountPdaAddr,
+      })
+      .signers([user])
+      .rpc({ commitment: "confirmed" });
+
+    const closedPdaAccountInfo = await anchor.getProvider().connection.getAccountInfo(projectAccountPdaAddr);
+    assert.strictEqual(closedPdaAccountInfo, null, "PDA account should be closed after withdrawal");
+  });
+
+  it("Should reject finalize for projects without a deadline", async () => {
+    const user = anchor.web3.Keypair.generate();
+    const projectAccountPdaAddr = await createProject(program, user, "Open Ended Project", 5000);
+
+    try {
+      await program.methods
+        .finalizeProject()
+        .accountsPartial({
+          user: user.publicKey,
+          project: projectAccountPdaAddr,
+        })
+        .signers([user])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Finalizing a project without a deadline should have failed");
+    } catch (error) {
+      console.log("✅ Finalize without deadline correctly rejected");
+      assert.ok(error.message.includes("ProjectHasNoDeadline"), "Error should indicate the project has no deadline");
+    }
+  });
+});
+
+describe("FundingMeClient", () => {
+  anchor.setProvider(anchor.AnchorProvider.env());
+
+  const program = anchor.workspace.fundingmeDapp as Program<FundingmeDapp>;
+  const client = new FundingMeClient(program);
+
+  it("Should run a successful project lifecycle through the client", async () => {
+    const owner = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+
+    // Airdrop SOL to owner and donor
+    const airdropOwner = await anchor.getProvider().connection.requestAirdrop(owner.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    const airdropDonor = await anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await Promise.all([
+      anchor.getProvider().connection.confirmTransaction(airdropOwner),
+      anchor.getProvider().connection.confirmTransaction(airdropDonor)
+    ]);
+
+    // The client takes SOL amounts and derives the project PDA from the owner
+    const { projectId } = await client.createProject(owner.publicKey, "Client Project", parseAmount("0.2", SOL_DECIMALS), null, { signers: [owner], commitment: "confirmed" });
+    assert.strictEqual(projectId, 0, "The first project of an owner should have id 0");
+
+    const { projectAccountPdaAddr } = findProjectPdas(program, owner.publicKey, projectId);
+    assert.ok(client.getProjectPDA(owner.publicKey, projectId)[0].equals(projectAccountPdaAddr), "Client should derive the canonical project PDA");
+
+    let project = await client.fetchProject(owner.publicKey, projectId);
+    assert.strictEqual(project.name, "Client Project", "Decoded project name should match");
+    assert.strictEqual(project.financialTarget, 200_000_000n, "Financial target should be stored in lamports");
+    assert.deepStrictEqual(project.status, { active: {} }, "New project should be Active");
+
+    await client.donate(donor.publicKey, owner.publicKey, projectId, parseAmount("0.2", SOL_DECIMALS), { signers: [donor], commitment: "confirmed" });
+
+    project = await client.fetchProject(owner.publicKey, projectId);
+    assert.strictEqual(project.balance, 200_000_000n, "Donation should be stored in lamports");
+    assert.deepStrictEqual(project.status, { targetReached: {} }, "Project should reach its target");
+    assert.strictEqual(project.donatorCount, 1, "Should have 1 donator");
+    const donations = await client.fetchDonations(projectAccountPdaAddr);
+    assert.strictEqual(donations.length, 1, "Should have 1 donation receipt");
+    assert.ok(donations[0].donator.equals(donor.publicKey), "Donator should be recorded");
+    assert.strictEqual(donations[0].amount, 200_000_000n, "Receipt amount should be stored in lamports");
+    const donation = await client.fetchDonation(projectAccountPdaAddr, donor.publicKey);
+    assert.ok(donation.address.equals(client.getDonationPDA(projectAccountPdaAddr, donor.publicKey)[0]), "Receipt should live at the donation PDA");
+
+    const donatorCount = await client.getDonatorCount(owner.publicKey, owner.publicKey, projectId);
+    assert.strictEqual(donatorCount, 1, "get_donator_count should return 1");
+
+    await client.closeProject(owner.publicKey, owner.publicKey, projectId, { signers: [owner], commitment: "confirmed" });
+    project = await client.fetchProject(owner.publicKey, projectId);
+    assert.deepStrictEqual(project.status, { success: {} }, "Project should be Success after closing");
+
+    const projects = await client.fetchProjects(owner.publicKey);
+    assert.strictEqual(projects.length, 1, "fetchProjects should list the owner's project");
+    assert.ok(projects[0].address.equals(projectAccountPdaAddr), "Listed project should carry its PDA");
+
+    await client.withdraw(owner.publicKey, owner.publicKey, projectId, { signers: [owner], commitment: "confirmed" });
+    assert.strictEqual(await client.fetchProject(owner.publicKey, projectId), null, "fetchProject should return null once the PDA is closed");
+  });
+
+  it("Should refund donators and close a failed project through the client", async () => {
+    const owner = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+
+    const airdropOwner = await anchor.getProvider().connection.requestAirdrop(owner.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    const airdropDonor = await anchor.getProvider().connection.requestAirdrop(donor.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await Promise.all([
+      anchor.getProvider().connection.confirmTransaction(airdropOwner),
+      anchor.getProvider().connection.confirmTransaction(airdropDonor)
+    ]);
+
+    const { projectId } = await client.createProject(owner.publicKey, "Client Failed Project", parseAmount("1", SOL_DECIMALS), null, { signers: [owner], commitment: "confirmed" });
+    await client.donate(donor.publicKey, owner.publicKey, projectId, parseAmount("0.1", SOL_DECIMALS), { signers: [donor], commitment: "confirmed" });
+
+    // Closing below target marks the project as Failed
+    await client.closeProject(owner.publicKey, owner.publicKey, projectId, { signers: [owner], commitment: "confirmed" });
+    let project = await client.fetchProject(owner.publicKey, projectId);
+    assert.deepStrictEqual(project.status, { failed: {} }, "Project should be Failed after closing below target");
+
+    await client.claimRefund(donor.publicKey, owner.publicKey, projectId, { signers: [donor], commitment: "confirmed" });
+    project = await client.fetchProject(owner.publicKey, projectId);
+    assert.strictEqual(project.donatorCount, 0, "Donator should be removed after refund");
+    assert.strictEqual(await client.fetchDonation(project.address, donor.publicKey), null, "Donation receipt should be closed after refund");
+    assert.strictEqual(project.balance, 0n, "Project balance should be 0 after refund");
+
+    await client.closeFailedProject(owner.publicKey, owner.publicKey, projectId, { signers: [owner], commitment: "confirmed" });
+    assert.strictEqual(await client.fetchProject(owner.publicKey, projectId), null, "Failed project PDA should be closed");
+
+    // The history of the closed project is still readable from its transactions, newest first
+    const { activity, cursor } = await client.fetchProjectActivity(project.address);
+    assert.deepStrictEqual(
+      activity.map((entry) => [entry.instruction, entry.user.toString(), entry.amount, entry.status]),
+      [
+        ["closeFailedProject", owner.publicKey.toString(), null, null],
+        ["claimRefund", donor.publicKey.toString(), 100_000_000n, null],
+        ["closeProject", owner.publicKey.toString(), null, "failed"],
+        ["donate", donor.publicKey.toString(), 100_000_000n, null],
+        ["createProject", owner.publicKey.toString(), 1_000_000_000n, null],
+      ],
+      "Activity should decode every instruction with its signer, amount and new status"
+    );
+    assert.strictEqual(cursor, null, "All activity should fit on one page");
+
+    const firstPage = await client.fetchProjectActivity(project.address, undefined, 2);
+    const secondPage = await client.fetchProjectActivity(project.address, firstPage.cursor, 2);
+    assert.deepStrictEqual(
+      [...firstPage.activity, ...secondPage.activity].map((entry) => entry.instruction),
+      ["closeFailedProject", "claimRefund", "closeProject", "donate"],
+      "Pages should continue where the previous one ended"
+    );
+  });
+
+  it("Should list the donations of a donator across projects", async () => {
+    const ownerA = anchor.web3.Keypair.generate();
+    const ownerB = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+
+    const airdrops = await Promise.all(
+      [ownerA, ownerB, donor].map((keypair) => anchor.getProvider().connection.requestAirdrop(keypair.publicKey, anchor.web3.LAMPORTS_PER_SOL))
+    );
+    await Promise.all(airdrops.map((signature) => anchor.getProvider().connection.confirmTransaction(signature)));
+
+    const { projectId: projectIdA } = await client.createProject(ownerA.publicKey, "Portfolio A", parseAmount("0.1", SOL_DECIMALS), null, { signers: [ownerA], commitment: "confirmed" });
+    const { projectId: projectIdB } = await client.createProject(ownerB.publicKey, "Portfolio B", parseAmount("1", SOL_DECIMALS), null, { signers: [ownerB], commitment: "confirmed" });
+    await client.donate(donor.publicKey, ownerA.publicKey, projectIdA, parseAmount("0.1", SOL_DECIMALS), { signers: [donor], commitment: "confirmed" });
+    await client.donate(donor.publicKey, ownerB.publicKey, projectIdB, parseAmount("0.2", SOL_DECIMALS), { signers: [donor], commitment: "confirmed" });
+
+    const projectA = client.getProjectPDA(ownerA.publicKey, projectIdA)[0];
+    const projectB = client.getProjectPDA(ownerB.publicKey, projectIdB)[0];
+    let donations = await client.fetchDonationsByDonator(donor.publicKey);
+    assert.strictEqual(donations.length, 2, "Should find one receipt per backed project");
+    assert.ok(donations[0].project.equals(projectB) && donations[0].amount === 200_000_000n, "Largest donation should come first");
+    assert.ok(donations[1].project.equals(projectA) && donations[1].amount === 100_000_000n, "Smaller donation should come second");
+
+    // A withdrawn project keeps the receipts of its donators, the project itself is gone
+    await client.closeProject(ownerA.publicKey, ownerA.publicKey, projectIdA, { signers: [ownerA], commitment: "confirmed" });
+    await client.withdraw(ownerA.publicKey, ownerA.publicKey, projectIdA, { signers: [ownerA], commitment: "confirmed" });
+    donations = await client.fetchDonationsByDonator(donor.publicKey);
+    const projects = await client.fetchProjectsByAddress(donations.map((donation) => donation.project));
+    assert.strictEqual(donations.length, 2, "Receipts should outlive a withdrawn project");
+    assert.strictEqual(projects[0].name, "Portfolio B", "Projects should be returned in the order of the addresses");
+    assert.strictEqual(projects[1], null, "A withdrawn project should be null");
+
+    // A refund closes the receipt
+    await client.closeProject(ownerB.publicKey, ownerB.publicKey, projectIdB, { signers: [ownerB], commitment: "confirmed" });
+    await client.claimRefund(donor.publicKey, ownerB.publicKey, projectIdB, { signers: [donor], commitment: "confirmed" });
+    donations = await client.fetchDonationsByDonator(donor.publicKey);
+    assert.strictEqual(donations.length, 1, "A refunded donation should no longer be listed");
+  });
+});
+
+describe("Events", () => {
+  anchor.setProvider(anchor.AnchorProvider.env());
+
+  const program = anchor.workspace.fundingmeDapp as Program<FundingmeDapp>;
+  const client = new FundingMeClient(program);
+  const options = (signer: anchor.web3.Keypair) => ({ signers: [signer], commitment: "confirmed" as anchor.web3.Commitment });
+
+  // Events of a transaction with keys as base58 and u64 values as strings, so payloads compare with deepStrictEqual
+  const fetchEvents = async (signature: string) =>
+    (await client.fetchTransactionEvents(signature)).map(({ name, data }) => ({
+      name,
+      data: Object.fromEntries(
+        Object.entries(data).map(([key, value]) => [
+          key,
+          value instanceof anchor.web3.PublicKey ? value.toBase58() : value instanceof anchor.BN ? value.toString() : value,
+        ])
+      ),
+    }));
+
+  it("Should emit events for a successful project lifecycle", async () => {
+    const owner = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+
+    const airdrops = await Promise.all(
+      [owner, donor].map((keypair) => anchor.getProvider().connection.requestAirdrop(keypair.publicKey, anchor.web3.LAMPORTS_PER_SOL))
+    );
+    await Promise.all(airdrops.map((signature) => anchor.getProvider().connection.confirmTransaction(signature)));
+
+    const { signature: createSignature, projectId } = await client.createProject(owner.publicKey, "Events Project", parseAmount("0.2", SOL_DECIMALS), null, options(owner));
+    const project = client.getProjectPDA(owner.publicKey, projectId)[0].toBase58();
+    assert.deepStrictEqual(await fetchEvents(createSignature), [
+      {
+        name: "projectCreated",
+        data: { project, owner: owner.publicKey.toBase58(), projectId: "0", name: "Events Project", financialTarget: "200000000", deadline: null, mint: null },
+      },
+    ], "Create should emit ProjectCreated with the project settings");
+
+    // A donation below the target leaves the status alone
+    let signature = await client.donate(donor.publicKey, owner.publicKey, projectId, parseAmount("0.05", SOL_DECIMALS), options(donor));
+    assert.deepStrictEqual(await fetchEvents(signature), [
+      { name: "donationReceived", data: { project, donator: donor.publicKey.toBase58(), amount: "50000000", balance: "50000000", donatorCount: "1" } },
+    ], "Donate should emit DonationReceived with the new balance");
+
+    signature = await client.donate(donor.publicKey, owner.publicKey, projectId, parseAmount("0.15", SOL_DECIMALS), options(donor));
+    assert.deepStrictEqual(await fetchEvents(signature), [
+      { name: "donationReceived", data: { project, donator: donor.publicKey.toBase58(), amount: "150000000", balance: "200000000", donatorCount: "1" } },
+      { name: "statusChanged", data: { project, previousStatus: { active: {} }, status: { targetReached: {} } } },
+    ], "Reaching the target should also emit StatusChanged");
+
+    signature = await client.pauseProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+    assert.deepStrictEqual(await fetchEvents(signature), [
+      { name: "statusChanged", data: { project, previousStatus: { targetReached: {} }, status: { paused: {} } } },
+    ], "Pause should emit StatusChanged");
+
+    signature = await client.resumeProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+    assert.deepStrictEqual(await fetchEvents(signature), [
+      { name: "statusChanged", data: { project, previousStatus: { paused: {} }, status: { targetReached: {} } } },
+    ], "Resume should emit StatusChanged with the derived status");
+
+    signature = await client.closeProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+    assert.deepStrictEqual(await fetchEvents(signature), [
+      { name: "statusChanged", data: { project, previousStatus: { targetReached: {} }, status: { success: {} } } },
+    ], "Close should emit StatusChanged to Success");
+
+    signature = await client.withdraw(owner.publicKey, owner.publicKey, projectId, options(owner));
+    assert.deepStrictEqual(await fetchEvents(signature), [
+      { name: "fundsWithdrawn", data: { project, owner: owner.publicKey.toBase58(), amount: "200000000" } },
+      { name: "projectClosed", data: { project, owner: owner.publicKey.toBase58() } },
+    ], "Withdraw should emit FundsWithdrawn without the rent, then ProjectClosed");
+  });
+
+  it("Should emit events for refunds and the closing of a failed project", async () => {
+    const owner = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+
+    const airdrops = await Promise.all(
+      [owner, donor].map((keypair) => anchor.getProvider().connection.requestAirdrop(keypair.publicKey, anchor.web3.LAMPORTS_PER_SOL))
+    );
+    await Promise.all(airdrops.map((signature) => anchor.getProvider().connection.confirmTransaction(signature)));
+
+    const { projectId } = await client.createProject(owner.publicKey, "Events Failed Project", parseAmount("1", SOL_DECIMALS), null, options(owner));
+    const project = client.getProjectPDA(owner.publicKey, projectId)[0].toBase58();
+    await client.donate(donor.publicKey, owner.publicKey, projectId, parseAmount("0.1", SOL_DECIMALS), options(donor));
+
+    let signature = await client.closeProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+    assert.deepStrictEqual(await fetchEvents(signature), [
+      { name: "statusChanged", data: { project, previousStatus: { active: {} }, status: { failed: {} } } },
+    ], "Closing below target should emit StatusChanged to Failed");
+
+    signature = await client.claimRefund(donor.publicKey, owner.publicKey, projectId, options(donor));
+    assert.deepStrictEqual(await fetchEvents(signature), [
+      { name: "refundClaimed", data: { project, donator: donor.publicKey.toBase58(), amount: "100000000", balance: "0", remainingDonators: "0" } },
+    ], "Claim refund should emit RefundClaimed with what is left to refund");
+
+    signature = await client.closeFailedProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+    assert.deepStrictEqual(await fetchEvents(signature), [
+      { name: "projectClosed", data: { project, owner: owner.publicKey.toBase58() } },
+    ], "Closing the failed project should emit ProjectClosed");
+  });
+});
+
+describe("Token donations", () => {
+  anchor.setProvider(anchor.AnchorProvider.env());
+
+  const program = anchor.workspace.fundingmeDapp as Program<FundingmeDapp>;
+  const client = new FundingMeClient(program);
+  const options = (signer: anchor.web3.Keypair) => ({ signers: [signer], commitment: "confirmed" as anchor.web3.Commitment });
+  // Base units of a whole token amount of the 6 decimals test mints
+  const tokens = (amount: string) => parseAmount(amount, 6);
+
+  // The owner also acts as mint authority of a fresh 6 decimals mint
+  async function setup(tokenProgram: anchor.web3.PublicKey, donors: anchor.web3.Keypair[], tokensEach: number) {
+    const owner = anchor.web3.Keypair.generate();
+    const connection = anchor.getProvider().connection;
+    const airdropSigs = await Promise.all(
+      [owner, ...donors].map(wallet => connection.requestAirdrop(wallet.publicKey, anchor.web3.LAMPORTS_PER_SOL))
+    );
+    await Promise.all(airdropSigs.map(sig => connection.confirmTransaction(sig)));
+
+    const mint = await createMint(owner, tokenProgram);
+    const donorTokenAccounts = [];
+    for (const donor of donors) {
+      donorTokenAccounts.push(await mintTokens(owner, mint, tokenProgram, donor.publicKey, tokensEach * 1_000_000));
+    }
+    return { owner, mint, donorTokenAccounts };
+  }
+
+  it("Should derive associated token accounts like @solana/spl-token", () => {
+    const payer = anchor.web3.Keypair.generate().publicKey;
+    const owner = anchor.web3.Keypair.generate().publicKey;
+    const mint = anchor.web3.Keypair.generate().publicKey;
+    // spl-token may bring its own copy of web3.js, so instructions are compared by their base58 keys
+    const describeInstruction = (instruction: anchor.web3.TransactionInstruction) => ({
+      programId: instruction.programId.toBase58(),
+      keys: instruction.keys.map(({ pubkey, isSigner, isWritable }) => ({ pubkey: pubkey.toBase58(), isSigner, isWritable })),
+      data: [...instruction.data],
+    });
+
+    assert.strictEqual(ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(), splToken.ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(), "Associated token program id should match spl-token");
+    assert.strictEqual(TOKEN_PROGRAM_ID.toBase58(), splToken.TOKEN_PROGRAM_ID.toBase58(), "Token program id should match spl-token");
+    assert.strictEqual(TOKEN_2022_PROGRAM_ID.toBase58(), splToken.TOKEN_2022_PROGRAM_ID.toBase58(), "Token-2022 program id should match spl-token");
+
+    for (const tokenProgram of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+      const tokenAccount = splToken.getAssociatedTokenAddressSync(mint, owner, false, tokenProgram);
+      assert.strictEqual(
+        findAssociatedTokenAddress(owner, mint, tokenProgram).toBase58(),
+        tokenAccount.toBase58(),
+        "Associated token address should match spl-token"
+      );
+      assert.deepStrictEqual(
+        describeInstruction(createAssociatedTokenAccountIdempotentInstruction(payer, owner, mint, tokenProgram)),
+        describeInstruction(splToken.createAssociatedTokenAccountIdempotentInstruction(payer, tokenAccount, owner, mint, tokenProgram)),
+        "Idempotent create instruction should match spl-token"
+      );
+    }
+  });
+
+  it("Should raise SPL tokens into the project vault and withdraw them to the owner", async () => {
+    const donor1 = anchor.web3.Keypair.generate();
+    const donor2 = anchor.web3.Keypair.generate();
+    const { owner, mint, donorTokenAccounts } = await setup(TOKEN_PROGRAM_ID, [donor1, donor2], 100);
+
+    const { projectId } = await client.createTokenProject(owner.publicKey, "Token Project", mint, tokens("50"), null, options(owner));
+    const [projectAccountPdaAddr] = client.getProjectPDA(owner.publicKey, projectId);
+    const [vault] = client.getVaultPDA(projectAccountPdaAddr);
+
+    let projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.ok(projectAccount.mint.equals(mint), "Project should record its accepted mint");
+    assert.strictEqual(projectAccount.financialTarget.toNumber(), 50_000_000, "Target should be stored in base units");
+    assert.strictEqual(await getTokenAmount(vault), 0, "Vault should start empty");
+
+    await client.donateToken(donor1.publicKey, owner.publicKey, projectId, tokens("20"), null, options(donor1));
+    await client.donateToken(donor2.publicKey, owner.publicKey, projectId, tokens("30"), donorTokenAccounts[1], options(donor2));
+
+    projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.strictEqual(projectAccount.balance.toNumber(), 50_000_000, "Balance should count donated base units");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 2, "Should have 2 donators");
+    assert.deepStrictEqual(projectAccount.status, { targetReached: {} }, "Project should reach its target");
+    assert.strictEqual(await getTokenAmount(vault), 50_000_000, "Vault should hold the donated tokens");
+    assert.strictEqual(await getTokenAmount(donorTokenAccounts[0]), 80_000_000, "Donor1 tokens should have moved");
+
+    const donation = await client.fetchDonation(projectAccountPdaAddr, donor1.publicKey);
+    assert.strictEqual(donation.amount, 20_000_000n, "Receipt should hold the donated base units");
+
+    await client.closeProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+    await client.withdrawToken(owner.publicKey, owner.publicKey, projectId, options(owner));
+
+    const ownerTokenAccount = findAssociatedTokenAddress(owner.publicKey, mint, TOKEN_PROGRAM_ID);
+    assert.strictEqual(await getTokenAmount(ownerTokenAccount), 50_000_000, "Owner should receive the raised tokens");
+    assert.strictEqual(await anchor.getProvider().connection.getAccountInfo(vault), null, "Vault should be closed");
+    assert.strictEqual(await client.fetchProject(owner.publicKey, projectId), null, "Project should be closed after withdraw");
+  });
+
+  it("Should refund Token-2022 donations and close the failed project", async () => {
+    const donor = anchor.web3.Keypair.generate();
+    const { owner, mint, donorTokenAccounts } = await setup(TOKEN_2022_PROGRAM_ID, [donor], 10);
+
+    const { projectId } = await client.createTokenProject(owner.publicKey, "Token-2022 Project", mint, tokens("100"), null, options(owner));
+    const [projectAccountPdaAddr] = client.getProjectPDA(owner.publicKey, projectId);
+    const [vault] = client.getVaultPDA(projectAccountPdaAddr);
+
+    await client.donateToken(donor.publicKey, owner.publicKey, projectId, tokens("4"), null, options(donor));
+    await client.donateToken(donor.publicKey, owner.publicKey, projectId, tokens("1.5"), null, options(donor));
+    assert.strictEqual(await getTokenAmount(donorTokenAccounts[0]), 4_500_000, "Donor should have 4.5 tokens left");
+
+    await client.closeProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+
+    // Vault and receipt are still in place, so the owner cannot close the project yet
+    try {
+      await client.closeFailedTokenProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+      assert.fail("Closing a failed project with donators left should have failed");
+    } catch (error) {
+      console.log("✅ Failed token project closure rejected while donators remain");
+      assert.ok(error.message.includes("InvalidProjectStatus"), "Error should indicate invalid project status");
+    }
+
+    await client.claimTokenRefund(donor.publicKey, owner.publicKey, projectId, options(donor));
+    assert.strictEqual(await getTokenAmount(donorTokenAccounts[0]), 10_000_000, "Donor should get every token back");
+    assert.strictEqual(await getTokenAmount(vault), 0, "Vault should be empty after the refund");
+
+    const projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 0, "Donator should be removed after refund");
+    assert.strictEqual(projectAccount.balance.toNumber(), 0, "Project balance should be 0 after refund");
+
+    await client.closeFailedTokenProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+    assert.strictEqual(await anchor.getProvider().connection.getAccountInfo(vault), null, "Vault should be closed");
+    assert.strictEqual(await client.fetchProject(owner.publicKey, projectId), null, "Failed project PDA should be closed");
+  });
+
+  it("Should reject donations in the wrong currency", async () => {
+    const donor = anchor.web3.Keypair.generate();
+    const { owner, mint } = await setup(TOKEN_PROGRAM_ID, [donor], 10);
+    const otherMint = await createMint(owner, TOKEN_PROGRAM_ID);
+    const otherTokenAccount = await mintTokens(owner, otherMint, TOKEN_PROGRAM_ID, donor.publicKey, 1_000_000);
+
+    const { projectId } = await client.createTokenProject(owner.publicKey, "Currency Project", mint, tokens("5"), null, options(owner));
+    const [projectAccountPdaAddr] = client.getProjectPDA(owner.publicKey, projectId);
+
+    // SOL donations are refused by token projects
+    try {
+      await client.donate(donor.publicKey, owner.publicKey, projectId, parseAmount("0.01", SOL_DECIMALS), options(donor));
+      assert.fail("SOL donation to a token project should have failed");
+    } catch (error) {
+      console.log("✅ SOL donation to a token project correctly rejected");
+      assert.ok(error.message.includes("CurrencyMismatch"), "Error should indicate a currency mismatch");
+    }
+
+    // Tokens of another mint are refused too
+    try {
+      await program.methods
+        .donateToken(new anchor.BN(1_000_000))
+        .accountsStrict({
+          user: donor.publicKey,
+          project: projectAccountPdaAddr,
+          donation: client.getDonationPDA(projectAccountPdaAddr, donor.publicKey)[0],
+          mint: otherMint,
+          donatorTokenAccount: otherTokenAccount,
+          vault: client.getVaultPDA(projectAccountPdaAddr)[0],
+          tokenProgram: TOKEN_PROGRAM_ID,
+          systemProgram: anchor.web3.SystemProgram.programId,
+        })
+        .signers([donor])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Donation of another mint should have failed");
+    } catch (error) {
+      console.log("✅ Donation of another mint correctly rejected");
+      assert.ok(error.message.includes("CurrencyMismatch"), "Error should indicate a currency mismatch");
+    }
+
+    const projectAccount = await program.account.projectAccount.fetch(projectAccountPdaAddr);
+    assert.strictEqual(projectAccount.balance.toNumber(), 0, "Project balance should be unchanged");
+    assert.strictEqual(projectAccount.donatorCount.toNumber(), 0, "No donator should be recorded");
+  });
+});
+
+describe("Batch refunds", () => {
+  anchor.setProvider(anchor.AnchorProvider.env());
+
+  const program = anchor.workspace.fundingmeDapp as Program<FundingmeDapp>;
+  const client = new FundingMeClient(program);
+  const options = (signer: anchor.web3.Keypair) => ({ signers: [signer], commitment: "confirmed" as anchor.web3.Commitment });
+
+  async function airdrop(wallets: anchor.web3.Keypair[]) {
+    const connection = anchor.getProvider().connection;
+    const airdropSigs = await Promise.all(
+      wallets.map(wallet => connection.requestAirdrop(wallet.publicKey, anchor.web3.LAMPORTS_PER_SOL))
+    );
+    await Promise.all(airdropSigs.map(sig => connection.confirmTransaction(sig)));
+  }
+
+  it("Should let any wallet refund every donator in batches so the owner can close the failed project", async () => {
+    const connection = anchor.getProvider().connection;
+    const owner = anchor.web3.Keypair.generate();
+    const cranker = anchor.web3.Keypair.generate();
+    // One more donator than fits in a batch, so the refund takes two transactions
+    const donors = Array.from({ length: REFUND_BATCH_SIZE + 1 }, () => anchor.web3.Keypair.generate());
+    await airdrop([owner, cranker, ...donors]);
+
+    const { projectId } = await client.createProject(owner.publicKey, "Batch Refund Project", parseAmount("10", SOL_DECIMALS), null, options(owner));
+    const [projectAccountPdaAddr] = client.getProjectPDA(owner.publicKey, projectId);
+    for (const donor of donors) {
+      await client.donate(donor.publicKey, owner.publicKey, projectId, parseAmount("0.01", SOL_DECIMALS), options(donor));
+    }
+    await client.closeProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+
+    const receiptRent = await client.getDonationReceiptRent();
+    const balancesBefore = await Promise.all(donors.map((donor) => connection.getBalance(donor.publicKey, "confirmed")));
+
+    const progress = [];
+    const signatures = await client.refundDonators(cranker.publicKey, owner.publicKey, projectId, ({ refunded, total }) => progress.push([refunded, total]), options(cranker));
+    assert.strictEqual(signatures.length, 2, "Donators should be refunded in two transactions");
+    assert.deepStrictEqual(progress, [[REFUND_BATCH_SIZE, donors.length], [donors.length, donors.length]], "Progress should be reported after each batch");
+
+    const balancesAfter = await Promise.all(donors.map((donor) => connection.getBalance(donor.publicKey, "confirmed")));
+    balancesAfter.forEach((balance, index) => {
+      assert.strictEqual(balance - balancesBefore[index], 10_000_000 + receiptRent, "Each donator should get the donation and the receipt rent back");
+    });
+
+    const project = await client.fetchProject(owner.publicKey, projectId);
+    assert.strictEqual(project.donatorCount, 0, "Every donator should be removed");
+    assert.strictEqual(project.balance, 0n, "Project balance should be 0 after the refunds");
+    assert.strictEqual((await client.fetchDonations(projectAccountPdaAddr)).length, 0, "Every donation receipt should be closed");
+
+    const { activity } = await client.fetchProjectActivity(projectAccountPdaAddr, undefined, 2);
+    assert.deepStrictEqual(
+      activity.map((entry) => [entry.instruction, entry.user.toString(), entry.amount]),
+      [
+        ["batchRefund", cranker.publicKey.toString(), 10_000_000n],
+        ["batchRefund", cranker.publicKey.toString(), BigInt(REFUND_BATCH_SIZE) * 10_000_000n],
+      ],
+      "Activity should sum the refunds of each batch"
+    );
+
+    await client.closeFailedProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+    assert.strictEqual(await client.fetchProject(owner.publicKey, projectId), null, "Failed project PDA should be closed");
+  });
+
+  it("Should send no transaction when every donator already claimed their refund", async () => {
+    const owner = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+    await airdrop([owner, donor]);
+
+    const { projectId } = await client.createProject(owner.publicKey, "Nothing To Refund", parseAmount("10", SOL_DECIMALS), null, options(owner));
+    await client.donate(donor.publicKey, owner.publicKey, projectId, parseAmount("0.01", SOL_DECIMALS), options(donor));
+    await client.closeProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+    await client.claimRefund(donor.publicKey, owner.publicKey, projectId, options(donor));
+
+    const progress = [];
+    const signatures = await client.refundDonators(owner.publicKey, owner.publicKey, projectId, (update) => progress.push(update), options(owner));
+    assert.deepStrictEqual(signatures, [], "No batch should be sent for an empty receipt set");
+    assert.deepStrictEqual(progress, [], "No progress should be reported for an empty receipt set");
+  });
+
+  it("Should reject batch refunds with receipts that do not match their donator", async () => {
+    const owner = anchor.web3.Keypair.generate();
+    const donor1 = anchor.web3.Keypair.generate();
+    const donor2 = anchor.web3.Keypair.generate();
+    await airdrop([owner, donor1, donor2]);
+
+    const { projectId } = await client.createProject(owner.publicKey, "Batch Refund Checks", parseAmount("10", SOL_DECIMALS), null, options(owner));
+    const [projectAccountPdaAddr] = client.getProjectPDA(owner.publicKey, projectId);
+    await client.donate(donor1.publicKey, owner.publicKey, projectId, parseAmount("0.1", SOL_DECIMALS), options(donor1));
+    await client.donate(donor2.publicKey, owner.publicKey, projectId, parseAmount("0.2", SOL_DECIMALS), options(donor2));
+    const [receipt1] = client.getDonationPDA(projectAccountPdaAddr, donor1.publicKey);
+
+    // Refunds only exist for failed projects
+    try {
+      await client.batchRefund(owner.publicKey, owner.publicKey, projectId, [{ address: receipt1, donator: donor1.publicKey }], options(owner));
+      assert.fail("Batch refund of an Active project should have failed");
+    } catch (error) {
+      console.log("✅ Batch refund of an Active project correctly rejected");
+      assert.ok(error.message.includes("InvalidProjectStatus"), "Error should indicate invalid project status");
+    }
+
+    await client.closeProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+
+    // The receipt of donor1 must not pay out to donor2
+    try {
+      await client.batchRefund(owner.publicKey, owner.publicKey, projectId, [{ address: receipt1, donator: donor2.publicKey }], options(owner));
+      assert.fail("Batch refund to the wrong donator should have failed");
+    } catch (error) {
+      console.log("✅ Batch refund to the wrong donator correctly rejected");
+      assert.ok(error.message.includes("InvalidRefundAccounts"), "Error should indicate invalid refund accounts");
+    }
+
+    // A receipt without its donator
+    try {
+      await program.methods
+        .batchRefund()
+        .accountsStrict({ user: owner.publicKey, project: projectAccountPdaAddr })
+        .remainingAccounts([{ pubkey: receipt1, isSigner: false, isWritable: true }])
+        .signers([owner])
+        .rpc({ commitment: "confirmed" });
+      assert.fail("Batch refund with a missing donator should have failed");
+    } catch (error) {
+      console.log("✅ Batch refund with a missing donator correctly rejected");
+      assert.ok(error.message.includes("InvalidRefundAccounts"), "Error should indicate invalid refund accounts");
+    }
+
+    const project = await client.fetchProject(owner.publicKey, projectId);
+    assert.strictEqual(project.donatorCount, 2, "No donator should be refunded by rejected batches");
+    assert.strictEqual(project.balance, 300_000_000n, "Project balance should be unchanged");
+  });
+
+  it("Should refund token donators in batches", async () => {
+    const owner = anchor.web3.Keypair.generate();
+    const donors = Array.from({ length: TOKEN_REFUND_BATCH_SIZE + 1 }, () => anchor.web3.Keypair.generate());
+    await airdrop([owner, ...donors]);
+
+    // The owner acts as mint authority of a fresh 6 decimals Token-2022 mint
+    const mint = await createMint(owner, TOKEN_2022_PROGRAM_ID);
+    const donorTokenAccounts = [];
+    for (const donor of donors) {
+      donorTokenAccounts.push(await mintTokens(owner, mint, TOKEN_2022_PROGRAM_ID, donor.publicKey, 10_000_000));
+    }
+
+    const { projectId } = await client.createTokenProject(owner.publicKey, "Batch Token Refund", mint, parseAmount("100", 6), null, options(owner));
+    const [projectAccountPdaAddr] = client.getProjectPDA(owner.publicKey, projectId);
+    const [vault] = client.getVaultPDA(projectAccountPdaAddr);
+    for (const donor of donors) {
+      await client.donateToken(donor.publicKey, owner.publicKey, projectId, parseAmount("2.5", 6), null, options(donor));
+    }
+    await client.closeProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+
+    // The owner refunds the donators themselves
+    const signatures = await client.refundDonators(owner.publicKey, owner.publicKey, projectId, undefined, options(owner));
+    assert.strictEqual(signatures.length, 2, "Donators should be refunded in two transactions");
+
+    for (const tokenAccount of donorTokenAccounts) {
+      assert.strictEqual(await getTokenAmount(tokenAccount), 10_000_000, "Each donator should get every token back");
+    }
+    assert.strictEqual(await getTokenAmount(vault), 0, "Vault should be empty after the refunds");
+    assert.strictEqual((await client.fetchProject(owner.publicKey, projectId)).donatorCount, 0, "Every donator should be removed");
+
+    await client.closeFailedTokenProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+    assert.strictEqual(await client.fetchProject(owner.publicKey, projectId), null, "Failed project PDA should be closed");
+  });
+});
+
+describe("Donation receipts", () => {
+  anchor.setProvider(anchor.AnchorProvider.env());
+
+  const program = anchor.workspace.fundingmeDapp as Program<FundingmeDapp>;
+  const client = new FundingMeClient(program);
+  const options = (signer: anchor.web3.Keypair) => ({ signers: [signer], commitment: "confirmed" as anchor.web3.Commitment });
+
+  async function airdrop(wallets: anchor.web3.Keypair[]) {
+    const connection = anchor.getProvider().connection;
+    const airdropSigs = await Promise.all(
+      wallets.map(wallet => connection.requestAirdrop(wallet.publicKey, anchor.web3.LAMPORTS_PER_SOL))
+    );
+    await Promise.all(airdropSigs.map(sig => connection.confirmTransaction(sig)));
+  }
+
+  it("Should reject donations of zero", async () => {
+    const owner = anchor.web3.Keypair.generate();
+    const donor = anchor.web3.Keypair.generate();
+    await airdrop([owner, donor]);
+
+    const { projectId } = await client.createProject(owner.publicKey, "Zero Donation Project", parseAmount("1", SOL_DECIMALS), null, options(owner));
+    const [projectAccountPdaAddr] = client.getProjectPDA(owner.publicKey, projectId);
+
+    try {
+      await client.donate(donor.publicKey, owner.publicKey, projectId, 0n, options(donor));
+      assert.fail("Donating zero should have failed");
+    } catch (error) {
+      console.log("✅ Zero donation correctly rejected");
+      assert.ok(error.message.includes("InvalidAmount"), "Error should indicate an invalid amount");
+    }
+
+    const project = await client.fetchProject(owner.publicKey, projectId);
+    assert.strictEqual(project.donatorCount, 0, "A zero donation should not add a donator");
+    assert.strictEqual(await client.fetchDonation(projectAccountPdaAddr, donor.publicKey), null, "No donation receipt should be created");
+  });
+
+  it("Should return the receipt rent to the donators of a withdrawn project", async () => {
+    const connection = anchor.getProvider().connection;
+    const owner = anchor.web3.Keypair.generate();
+    const cranker = anchor.web3.Keypair.generate();
+    // One more donator than fits in a batch, so closing the receipts takes two transactions
+    const donors = Array.from({ length: REFUND_BATCH_SIZE + 1 }, () => anchor.web3.Keypair.generate());
+    await airdrop([owner, cranker, ...donors]);
+
+    const { projectId } = await client.createProject(owner.publicKey, "Receipt Rent Project", parseAmount("0.1", SOL_DECIMALS), null, options(owner));
+    const [projectAccountPdaAddr] = client.getProjectPDA(owner.publicKey, projectId);
+    for (const donor of donors) {
+      await client.donate(donor.publicKey, owner.publicKey, projectId, parseAmount("0.01", SOL_DECIMALS), options(donor));
+    }
+    await client.closeProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+    await client.withdraw(owner.publicKey, owner.publicKey, projectId, options(owner));
+    assert.strictEqual(await client.fetchProject(owner.publicKey, projectId), null, "Project PDA should be closed by the withdrawal");
+    assert.strictEqual((await client.fetchDonations(projectAccountPdaAddr)).length, donors.length, "Receipts should outlive the withdrawal");
+
+    const receiptRent = await client.getDonationReceiptRent();
+    const balancesBefore = await Promise.all(donors.map((donor) => connection.getBalance(donor.publicKey, "confirmed")));
+
+    const signatures = await client.closeProjectReceipts(cranker.publicKey, projectAccountPdaAddr, options(cranker));
+    assert.strictEqual(signatures.length, 2, "Receipts should be closed in two transactions");
+
+    const balancesAfter = await Promise.all(donors.map((donor) => connection.getBalance(donor.publicKey, "confirmed")));
+    balancesAfter.forEach((balance, index) => {
+      assert.strictEqual(balance - balancesBefore[index], receiptRent, "Each donator should only get the receipt rent back");
+    });
+    assert.strictEqual((await client.fetchDonations(projectAccountPdaAddr)).length, 0, "Every donation receipt should be closed");
+  });
+
+  it("Should let a donator close their receipt of a Success project but not of a running or failed one", async () => {
+    const owner = anchor.web3.Keypair.generate();
+    const donor1 = anchor.web3.Keypair.generate();
+    const donor2 = anchor.web3.Keypair.generate();
+    await airdrop([owner, donor1, donor2]);
+
+    const { projectId } = await client.createProject(owner.publicKey, "Receipt Status Project", parseAmount("0.3", SOL_DECIMALS), null, options(owner));
+    const [projectAccountPdaAddr] = client.getProjectPDA(owner.publicKey, projectId);
+    await client.donate(donor1.publicKey, owner.publicKey, projectId, parseAmount("0.1", SOL_DECIMALS), options(donor1));
+    await client.donate(donor2.publicKey, owner.publicKey, projectId, parseAmount("0.2", SOL_DECIMALS), options(donor2));
+    const receipt1 = { address: client.getDonationPDA(projectAccountPdaAddr, donor1.publicKey)[0], donator: donor1.publicKey };
+
+    // The donation of a running project can still be refunded, so its receipt stays
+    try {
+      await client.closeReceipts(donor1.publicKey, projectAccountPdaAddr, [receipt1], options(donor1));
+      assert.fail("Closing a receipt of a TargetReached project should have failed");
+    } catch (error) {
+      console.log("✅ Receipt of a running project correctly kept");
+      assert.ok(error.message.includes("InvalidProjectStatus"), "Error should indicate invalid project status");
+    }
+
+    await client.closeProject(owner.publicKey, owner.publicKey, projectId, options(owner));
+
+    // The receipt of donor1 must not pay its rent to donor2
+    try {
+      await client.closeReceipts(donor2.publicKey, projectAccountPdaAddr, [{ ...receipt1, donator: donor2.publicKey }], options(donor2));
+      assert.fail("Closing a receipt to the wrong donator should have failed");
+    } catch (error) {
+      console.log("✅ Receipt closed to the wrong donator correctly rejected");
+      assert.ok(error.message.includes("InvalidRefundAccounts"), "Error should indicate invalid refund accounts");
+    }
+
+    await client.closeReceipts(donor1.publicKey, projectAccountPdaAddr, [receipt1], options(donor1));
+    assert.strictEqual(await client.fetchDonation(projectAccountPdaAddr, donor1.publicKey), null, "The receipt of donor1 should be closed");
+
+    const project = await client.fetchProject(owner.publicKey, projectId);
+    assert.deepStrictEqual(project.status, { success: {} }, "Project should still be Success");
+    assert.strictEqual(project.balance, 300_000_000n, "The donations should stay with the project");
+
+    // Failed projects close their receipts through refunds only
+    const { projectId: failedProjectId } = await client.createProject(owner.publicKey, "Receipt Failed Project", parseAmount("1", SOL_DECIMALS), null, options(owner));
+    const [failedProjectPdaAddr] = client.getProjectPDA(owner.publicKey, failedProjectId);
+    await client.donate(donor1.publicKey, owner.publicKey, failedProjectId, parseAmount("0.1", SOL_DECIMALS), options(donor1));
+    await client.closeProject(owner.publicKey, owner.publicKey, failedProjectId, options(owner));
+    try {
+      await client.closeReceipts(
+        donor1.publicKey,
+        failedProjectPdaAddr,
+        [{ address: client.getDonationPDA(failedProjectPdaAddr, donor1.publicKey)[0], donator: donor1.publicKey }],
+        options(donor1)
+      );
+      assert.fail("Closing a receipt of a Failed project should have failed");
+    } catch (error) {
+      console.log("✅ Receipt of a failed project correctly kept for the refund");
+      assert.ok(error.message.includes("InvalidProjectStatus"), "Error should indicate invalid project status");
+    }
+  });
+});
+
+describe("Amounts", () => {
+  it("Should parse decimal strings into exact base units", () => {
+    assert.strictEqual(parseAmount("0.1", SOL_DECIMALS) + parseAmount("0.2", SOL_DECIMALS), parseAmount("0.3", SOL_DECIMALS), "0.1 + 0.2 should be exactly 0.3 SOL");
+    assert.strictEqual(parseAmount("1.5", SOL_DECIMALS), 1_500_000_000n, "1.5 SOL should be 1.5 billion lamports");
+    assert.strictEqual(parseAmount(".25", 6), 250_000n, "A leading decimal point should be accepted");
+    assert.strictEqual(parseAmount("18446744073709551615", 0), 18446744073709551615n, "u64::MAX base units should be accepted");
+  });
+
+  it("Should reject invalid amounts with a reason", () => {
+    assert.strictEqual(validateAmount("", SOL_DECIMALS), "Enter an amount");
+    assert.strictEqual(validateAmount("-1", SOL_DECIMALS), "Amount cannot be negative");
+    assert.strictEqual(validateAmount("1e9", SOL_DECIMALS), "Enter a valid number");
+    assert.strictEqual(validateAmount("0.0000000001", SOL_DECIMALS), "Use at most 9 decimal places");
+    assert.strictEqual(validateAmount("1.5", 0), "Amount must be a whole number");
+    assert.strictEqual(validateAmount("0.000", SOL_DECIMALS), "Amount must be greater than zero");
+    assert.strictEqual(validateAmount("18446744073709551616", 0), "Amount is too large");
+    assert.throws(() => parseAmount("-1", SOL_DECIMALS), /Amount cannot be negative/);
+  });
+
+  it("Should format base units without floating point", () => {
+    assert.strictEqual(formatAmount(1_500_000_000n, SOL_DECIMALS), "1.5", "Trailing zeros should be dropped");
+    assert.strictEqual(formatAmount(1_999_999_999n, SOL_DECIMALS, 2), "1.99", "Digits should be cut, not rounded up");
+    assert.strictEqual(formatAmount(18446744073709551615n, SOL_DECIMALS), "18446744073.709551615", "Amounts above 2^53 should stay exact");
+    assert.strictEqual(formatAmount(parseAmount("123.456", 6), 6), "123.456", "Parsing and formatting should round-trip");
+  });
+});
+
+describe("API pagination", () => {
+  // Receipts of one wallet as the wallet donations route sees them: `mint` is null for SOL projects and undefined once
+  // the project is withdrawn
+  const usdc = anchor.web3.Keypair.generate().publicKey.toBase58();
+  const receipt = (amount: bigint, mint: string | null | undefined) => ({
+    address: anchor.web3.Keypair.generate().publicKey.toBase58(),
+    amount: amount.toString(),
+    mint,
+  });
+  const solSmall = receipt(2_000_000n, null);
+  const solLarge = receipt(parseAmount("1", SOL_DECIMALS), null);
+  const usdcOne = receipt(parseAmount("1", 6), usdc);
+  const withdrawn = receipt(5_000_000n, undefined);
+  const receipts = [usdcOne, solSmall, withdrawn, solLarge];
+
+  it("Should sort a wallet's SOL and token receipts within their currency", () => {
+    const { items, nextCursor } = paginate(receipts, byCurrencyAndAmount((item) => item), new URLSearchParams());
+    assert.deepStrictEqual(items, [solLarge, solSmall, usdcOne, withdrawn], "SOL should come first, then each mint, then unknown currencies");
+    assert.strictEqual(nextCursor, null, "A single page should have no cursor");
+  });
+
+  it("Should continue after the cursor across currencies", () => {
+    const order = byCurrencyAndAmount((item: (typeof receipts)[number]) => item);
+    const pages = [];
+    let cursor: string | null = null;
+    do {
+      const searchParams = new URLSearchParams({ limit: "1", ...(cursor ? { cursor } : {}) });
+      const page = paginate(receipts, order, searchParams);
+      pages.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+    assert.deepStrictEqual(pages, [solLarge, solSmall, usdcOne, withdrawn], "Pages of one receipt should list every receipt once, in order");
+  });
+});
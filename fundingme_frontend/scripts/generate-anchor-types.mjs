@@ -0,0 +1,96 @@
+// Generates src/lib/anchor/idl.json and src/lib/anchor/types.ts from the Anchor build output.
+//
+//   node scripts/generate-anchor-types.mjs           # regenerate
+//   node scripts/generate-anchor-types.mjs --check   # fail if the committed files are stale
+//   node scripts/generate-anchor-types.mjs --idl <path>
+//
+// By default the IDL is read from ../fundingme_dapp/target/idl/fundingme_dapp.json (written by `anchor build`).
+// When that file does not exist, the committed src/lib/anchor/idl.json is used as the source.
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, relative, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+// Same conversion Anchor applies to the IDL when it writes target/types and when `new Program()` loads it
+import { convertIdlToCamelCase } from '@coral-xyz/anchor/dist/cjs/idl.js'
+import * as prettier from 'prettier'
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..')
+const buildIdlPath = resolve(root, '../fundingme_dapp/target/idl/fundingme_dapp.json')
+const idlPath = resolve(root, 'src/lib/anchor/idl.json')
+const typesPath = resolve(root, 'src/lib/anchor/types.ts')
+
+const args = process.argv.slice(2)
+const check = args.includes('--check')
+const idlArg = args.indexOf('--idl')
+const sourcePath = idlArg !== -1 ? resolve(args[idlArg + 1]) : existsSync(buildIdlPath) ? buildIdlPath : idlPath
+
+const pascalCase = (name) => name.charAt(0).toUpperCase() + name.slice(1)
+const constantCase = (name) => name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()
+
+function renderTypes(idl) {
+  const camelIdl = convertIdlToCamelCase(structuredClone(idl))
+  const typeName = pascalCase(camelIdl.metadata.name)
+  const accountNames = new Set((camelIdl.accounts ?? []).map((account) => account.name))
+  const lines = [
+    '// This file is generated by scripts/generate-anchor-types.mjs from the Anchor IDL (src/lib/anchor/idl.json).',
+    '// Do not edit it by hand: run `npm run anchor:types` after `anchor build` instead.',
+    "import type { IdlAccounts, IdlTypes } from '@coral-xyz/anchor'",
+    '',
+    '// Program IDL type in the camelCase format emitted by `anchor build` (target/types/fundingme_dapp.ts)',
+    `export type ${typeName} = ${JSON.stringify(camelIdl)}`,
+    '',
+  ]
+
+  for (const account of camelIdl.accounts ?? []) {
+    lines.push(`export type ${pascalCase(account.name)} = IdlAccounts<${typeName}>['${account.name}']`)
+  }
+
+  for (const type of camelIdl.types ?? []) {
+    if (accountNames.has(type.name)) continue
+    const name = pascalCase(type.name)
+    lines.push(`export type ${name} = IdlTypes<${typeName}>['${type.name}']`)
+    if (type.type.kind === 'enum') {
+      const variants = type.type.variants.map((variant) => variant.name)
+      lines.push(`export const ${constantCase(name)}_VARIANTS = ${JSON.stringify(variants)} as const`)
+      lines.push(`export type ${name}Variant = ${variants.map((variant) => `'${variant}'`).join(' | ')}`)
+    }
+  }
+
+  // `#[constant]` items keep their Rust names; integers that fit in a number are emitted as numbers
+  if (idl.constants?.length) lines.push('')
+  for (const { name, type, value } of idl.constants ?? []) {
+    const literal = /^[iu](8|16|32)$/.test(type) ? Number(value) : JSON.stringify(value)
+    lines.push(`export const ${name} = ${literal}`)
+  }
+
+  // Error names are kept in their Rust spelling, which is what Anchor prints in "Error Code: <name>" logs
+  const errors = Object.fromEntries((idl.errors ?? []).map(({ code, name, msg }) => [name, { code, msg }]))
+  lines.push('', `export const PROGRAM_ERRORS = ${JSON.stringify(errors)} as const`)
+  lines.push('export type ProgramErrorName = keyof typeof PROGRAM_ERRORS')
+
+  return lines.join('\n')
+}
+
+async function format(source, filepath) {
+  const options = await prettier.resolveConfig(filepath)
+  return prettier.format(source, { ...options, filepath })
+}
+
+const idl = JSON.parse(readFileSync(sourcePath, 'utf8'))
+const outputs = [[typesPath, await format(renderTypes(idl), typesPath)]]
+if (sourcePath !== idlPath) {
+  outputs.push([idlPath, await format(JSON.stringify(idl), idlPath)])
+}
+
+let stale = false
+for (const [path, contents] of outputs) {
+  const current = existsSync(path) ? readFileSync(path, 'utf8') : ''
+  if (current === contents) continue
+  if (check) {
+    console.error(`${relative(root, path)} is out of date, run \`npm run anchor:types\``)
+    stale = true
+  } else {
+    writeFileSync(path, contents)
+    console.log(`Wrote ${relative(root, path)}`)
+  }
+}
+process.exit(stale ? 1 : 0)
@@ -0,0 +1,7 @@
+'use client'
+
+import AccountFeatureDetail from '@/features/account/account-feature-detail'
+
+export default function Page() {
+  return <AccountFeatureDetail />
+}
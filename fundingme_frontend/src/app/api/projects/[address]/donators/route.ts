@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server'
+import { getProjectDonations } from '@/lib/api/data'
+import { handleApiRequest, parsePublicKey } from '@/lib/api/http'
+import { byAmount, paginate } from '@/lib/api/pagination'
+
+// GET /api/projects/:address/donators?cursor=&limit=
+// Donation receipts of a project, largest first. Receipts outlive a withdrawn project and are closed by refunds.
+export function GET(request: NextRequest, { params }: { params: Promise<{ address: string }> }) {
+  return handleApiRequest(async () => {
+    const address = parsePublicKey((await params).address, 'address')
+    const { items, nextCursor } = paginate(
+      await getProjectDonations(address),
+      byAmount((donation) => donation),
+      request.nextUrl.searchParams,
+    )
+    return { donations: items, nextCursor }
+  })
+}
@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server'
+import { getMint, getProjects } from '@/lib/api/data'
+import { ApiError } from '@/lib/api/errors'
+import { handleApiRequest, parsePublicKey } from '@/lib/api/http'
+
+// GET /api/projects/:address
+// One project with the mint of token projects, which has the decimals needed to display its amounts
+export function GET(_request: NextRequest, { params }: { params: Promise<{ address: string }> }) {
+  return handleApiRequest(async () => {
+    const address = parsePublicKey((await params).address, 'address')
+    const project = (await getProjects()).find((p) => p.address === address)
+    if (!project) {
+      throw new ApiError(404, 'Project not found, it may have been withdrawn or closed')
+    }
+    return { project, mint: project.mint ? await getMint(project.mint) : null }
+  })
+}
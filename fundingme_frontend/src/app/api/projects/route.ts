@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { getProjects } from '@/lib/api/data'
+import { handleApiRequest, parsePublicKey, parseStatus } from '@/lib/api/http'
+import { byAddress, paginate } from '@/lib/api/pagination'
+
+// GET /api/projects?status=&owner=&cursor=&limit=
+// Open projects ordered by address, optionally of one status and one owner
+export function GET(request: NextRequest) {
+  return handleApiRequest(async () => {
+    const { searchParams } = request.nextUrl
+    const status = parseStatus(searchParams)
+    const ownerParam = searchParams.get('owner')
+    const owner = ownerParam === null ? null : parsePublicKey(ownerParam, 'owner')
+
+    const projects = (await getProjects()).filter(
+      (project) => (!status || project.status === status) && (!owner || project.owner === owner),
+    )
+    const { items, nextCursor } = paginate(
+      projects,
+      byAddress((project) => project.address),
+      searchParams,
+    )
+    return { projects: items, nextCursor }
+  })
+}
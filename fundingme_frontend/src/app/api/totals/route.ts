@@ -0,0 +1,30 @@
+import { getProjects } from '@/lib/api/data'
+import { handleApiRequest } from '@/lib/api/http'
+import { PROJECT_STATUS_VARIANTS, ProjectStatusVariant } from '@/lib/anchor/types'
+
+// GET /api/totals
+// Platform totals over the open project accounts, withdrawn projects are no longer on-chain. Amounts of different
+// currencies cannot be added up, `raised` has one entry per currency with `mint` null for SOL. `donators` adds up the
+// donators of every project, a wallet backing two projects counts twice.
+export function GET() {
+  return handleApiRequest(async () => {
+    const projects = await getProjects()
+
+    const byStatus = Object.fromEntries(PROJECT_STATUS_VARIANTS.map((status) => [status, 0])) as Record<
+      ProjectStatusVariant,
+      number
+    >
+    const raised = new Map<string | null, bigint>()
+    for (const project of projects) {
+      byStatus[project.status]++
+      raised.set(project.mint, (raised.get(project.mint) ?? 0n) + BigInt(project.balance))
+    }
+
+    return {
+      projects: projects.length,
+      byStatus,
+      donators: projects.reduce((total, project) => total + project.donatorCount, 0),
+      raised: [...raised].map(([mint, amount]) => ({ mint, amount: amount.toString() })),
+    }
+  })
+}
@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server'
+import { getProjects, getWalletDonations } from '@/lib/api/data'
+import { handleApiRequest, parsePublicKey, parseStatus } from '@/lib/api/http'
+import { byCurrencyAndAmount, paginate } from '@/lib/api/pagination'
+
+// GET /api/wallets/:address/donations?status=&cursor=&limit=
+// Donation receipts of a wallet across projects, each with its project or null once the project is withdrawn.
+// Grouped by currency (SOL, then each mint, then receipts of withdrawn projects whose currency is no longer known),
+// largest first within a currency. `status` filters on the project status and leaves out withdrawn projects.
+export function GET(request: NextRequest, { params }: { params: Promise<{ address: string }> }) {
+  return handleApiRequest(async () => {
+    const { searchParams } = request.nextUrl
+    const wallet = parsePublicKey((await params).address, 'address')
+    const status = parseStatus(searchParams)
+
+    const [donations, projects] = await Promise.all([getWalletDonations(wallet), getProjects()])
+    const items = donations
+      .map((donation) => ({ donation, project: projects.find((p) => p.address === donation.project) ?? null }))
+      .filter(({ project }) => !status || project?.status === status)
+    const page = paginate(
+      items,
+      byCurrencyAndAmount(({ donation, project }) => ({ ...donation, mint: project ? project.mint : undefined })),
+      searchParams,
+    )
+    return { donations: page.items, nextCursor: page.nextCursor }
+  })
+}
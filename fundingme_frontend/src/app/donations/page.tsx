@@ -0,0 +1,5 @@
+import DonationFeature from '@/features/donation/donation-feature'
+
+export default function Donations() {
+  return <DonationFeature />
+}
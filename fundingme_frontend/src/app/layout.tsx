@@ -12,6 +12,10 @@ export const metadata: Metadata = {
 
 const links: { label: string; path: string }[] = [
   { label: 'Home', path: '/' },
+  { label: 'Projects', path: '/projects' },
+  { label: 'My Projects', path: '/project' },
+  { label: 'My Donations', path: '/donations' },
+  { label: 'Account', path: '/account' },
 ]
 
 export default function RootLayout({ children }: Readonly<{ children: React.ReactNode }>) {
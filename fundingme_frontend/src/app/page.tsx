@@ -1,5 +1,5 @@
-import FundingApp from '@/components/FundingApp'
+import ProjectFeature from '@/features/project/project-feature'
 
 export default function Home() {
-  return <FundingApp />
+  return <ProjectFeature />
 }
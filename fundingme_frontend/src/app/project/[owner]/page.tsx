@@ -0,0 +1,5 @@
+import ProjectFeatureDetail from '@/features/project/project-feature-detail'
+
+export default function Project() {
+  return <ProjectFeatureDetail />
+}
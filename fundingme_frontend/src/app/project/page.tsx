@@ -0,0 +1,8 @@
+'use client'
+
+import { redirect } from 'next/navigation'
+import ProjectFeatureIndex from '@/features/project/project-feature-index'
+
+export default function Page() {
+  return <ProjectFeatureIndex redirect={redirect} />
+}
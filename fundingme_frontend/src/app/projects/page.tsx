@@ -0,0 +1,5 @@
+import ProjectsFeature from '@/features/projects/projects-feature'
+
+export default function Projects() {
+  return <ProjectsFeature />
+}
@@ -0,0 +1,18 @@
+import { getStatusVariant, STATUS_TEXT } from '@/lib/anchor/client'
+import { ProjectStatus, ProjectStatusVariant } from '@/lib/anchor/types'
+
+// Keyed by the generated status variants so a new ProjectStatus in Rust fails to compile here
+export const STATUS_COLOR: Record<ProjectStatusVariant, string> = {
+  active: 'text-blue-600 dark:text-blue-400 bg-blue-100 dark:bg-blue-900/30',
+  paused: 'text-gray-600 dark:text-gray-400 bg-gray-100 dark:bg-gray-800/50',
+  targetReached: 'text-green-600 dark:text-green-400 bg-green-100 dark:bg-green-900/30',
+  success: 'text-green-600 dark:text-green-400 bg-green-100 dark:bg-green-900/30',
+  failed: 'text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30',
+}
+
+export function ProjectStatusBadge({ status }: { status: ProjectStatus }) {
+  const variant = getStatusVariant(status)
+  return (
+    <span className={`px-2 py-1 rounded text-xs font-semibold ${STATUS_COLOR[variant]}`}>{STATUS_TEXT[variant]}</span>
+  )
+}
@@ -1,6 +1,6 @@
-import { getExplorerLink, GetExplorerLinkArgs } from 'gill'
-import { getSolanaClusterMoniker } from '@wallet-ui/react-gill'
+import { GetExplorerLinkArgs } from 'gill'
 import { useSolana } from '@/components/solana/use-solana'
+import { getClusterExplorerLink } from '@/components/solana/solana-clusters'
 import { ArrowUpRightFromSquare } from 'lucide-react'
 
 export function AppExplorerLink({
@@ -14,7 +14,7 @@ export function AppExplorerLink({
   const { cluster } = useSolana()
   return (
     <a
-      href={getExplorerLink({ ...link, cluster: getSolanaClusterMoniker(cluster.id) })}
+      href={getClusterExplorerLink(cluster, link)}
       target="_blank"
       rel="noopener noreferrer"
       className={className ? className : `link font-mono inline-flex gap-1`}
@@ -17,7 +17,7 @@ export function AppHeader({ links = [] }: { links: { label: string; path: string
   const [showMenu, setShowMenu] = useState(false)
 
   function isActive(path: string) {
-    return path === '/' ? pathname === '/' : pathname.startsWith(path)
+    return path === '/' ? pathname === '/' : pathname === path || pathname.startsWith(`${path}/`)
   }
 
   return (
@@ -2,7 +2,7 @@
 
 import { ThemeProvider } from '@/components/theme-provider'
 import { ReactQueryProvider } from './react-query-provider'
-import { SimpleSolanaProvider } from '@/components/solana/simple-solana-provider'
+import { SolanaProvider } from '@/components/solana/solana-provider'
 import { Toaster } from 'sonner'
 import React from 'react'
 
@@ -10,10 +10,10 @@ export function AppProviders({ children }: Readonly<{ children: React.ReactNode
   return (
     <ReactQueryProvider>
       <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
-        <SimpleSolanaProvider>
+        <SolanaProvider>
           {children}
           <Toaster />
-        </SimpleSolanaProvider>
+        </SolanaProvider>
       </ThemeProvider>
     </ReactQueryProvider>
   )
@@ -1,11 +1,81 @@
 'use client'
 
+import { useState } from 'react'
+import { useWalletUiCluster } from '@wallet-ui/react'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { clusterStorage, CUSTOM_CLUSTER_ID, customRpcStorage, isValidRpcUrl } from '@/components/solana/solana-clusters'
 
 export function ClusterDropdown() {
+  const { cluster, clusters, setCluster } = useWalletUiCluster()
+  const [open, setOpen] = useState(false)
+  const [url, setUrl] = useState('')
+
+  // setCluster only knows the clusters of the current render, the custom one may not exist before its URL is stored
+  const saveCustomRpc = () => {
+    customRpcStorage.set(url.trim())
+    clusterStorage.set(CUSTOM_CLUSTER_ID)
+    setOpen(false)
+  }
+
   return (
-    <Button variant="outline" disabled>
-      Devnet
-    </Button>
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">{cluster.label}</Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuRadioGroup value={cluster.id} onValueChange={(id) => setCluster(id as typeof cluster.id)}>
+            {clusters.map((item) => (
+              <DropdownMenuRadioItem key={item.id} value={item.id}>
+                {item.label}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onSelect={() => {
+              setUrl(customRpcStorage.get())
+              setOpen(true)
+            }}
+          >
+            Custom RPC URL...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[525px]">
+          <DialogHeader>
+            <DialogTitle>Custom RPC</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <Label htmlFor="rpc-url">RPC URL</Label>
+            <Input
+              id="rpc-url"
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://my-rpc.example.com"
+              type="url"
+              value={url}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" onClick={saveCustomRpc} disabled={!isValidRpcUrl(url.trim())}>
+              Connect
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
   )
 }
@@ -0,0 +1,95 @@
+import { createContext, Dispatch, ReactNode, SetStateAction, useContext, useEffect, useMemo, useState } from 'react'
+import { Wallet } from '@coral-xyz/anchor'
+import { Connection, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js'
+import { UiWalletAccount, useSignTransaction, useWalletUi } from '@wallet-ui/react'
+import { getClusterRpcUrl } from './solana-clusters'
+
+type SignTransaction = ReturnType<typeof useSignTransaction>
+
+export interface AnchorWalletContextValue {
+  // web3.js connection to the selected cluster, for the Anchor client
+  connection: Connection
+  // The connected Wallet Standard account in the shape AnchorProvider expects
+  anchorWallet?: Wallet
+}
+
+const AnchorWalletContext = createContext<AnchorWalletContextValue>({} as AnchorWalletContextValue)
+
+async function signWith<T extends Transaction | VersionedTransaction>(
+  signTransaction: SignTransaction,
+  transaction: T,
+) {
+  const bytes =
+    transaction instanceof VersionedTransaction
+      ? transaction.serialize()
+      : transaction.serialize({ requireAllSignatures: false, verifySignatures: false })
+  const { signedTransaction } = await signTransaction({ transaction: bytes })
+  return (
+    transaction instanceof VersionedTransaction
+      ? VersionedTransaction.deserialize(signedTransaction)
+      : Transaction.from(signedTransaction)
+  ) as T
+}
+
+// useSignTransaction needs an account, this renders only while one is connected and hands the signer up
+function AccountSigner({
+  account,
+  chain,
+  onSigner,
+}: {
+  account: UiWalletAccount
+  chain: `solana:${string}`
+  onSigner: Dispatch<SetStateAction<SignTransaction | undefined>>
+}) {
+  const signTransaction = useSignTransaction(account, chain)
+  useEffect(() => {
+    // Wrapped, as a function passed to a state setter is called as an updater
+    onSigner(() => signTransaction)
+    return () => onSigner(undefined)
+  }, [signTransaction, onSigner])
+  return null
+}
+
+export function AnchorWalletProvider({ children }: { children: ReactNode }) {
+  const { account, cluster } = useWalletUi()
+  const [signTransaction, setSignTransaction] = useState<SignTransaction>()
+  const rpcUrl = getClusterRpcUrl(cluster)
+  const connection = useMemo(() => new Connection(rpcUrl, 'confirmed'), [rpcUrl])
+
+  // Wallets only sign for the chains they know, a localnet or custom RPC is signed for as one of those.
+  // The chain is a hint for the wallet's simulation, the transaction is sent through our own connection.
+  const chain = account?.chains.includes(cluster.id) ? cluster.id : account?.chains.find((c) => c.startsWith('solana:'))
+
+  const anchorWallet = useMemo<Wallet | undefined>(() => {
+    if (!account || !signTransaction) return
+    return {
+      publicKey: new PublicKey(account.address),
+      signTransaction: (transaction) => signWith(signTransaction, transaction),
+      signAllTransactions: async (transactions) => {
+        const signed = []
+        for (const transaction of transactions) {
+          signed.push(await signWith(signTransaction, transaction))
+        }
+        return signed
+      },
+    } as Wallet
+  }, [account, signTransaction])
+
+  return (
+    <AnchorWalletContext.Provider value={{ connection, anchorWallet }}>
+      {account && chain ? (
+        <AccountSigner
+          key={`${account.address}:${chain}`}
+          account={account}
+          chain={chain as `solana:${string}`}
+          onSigner={setSignTransaction}
+        />
+      ) : null}
+      {children}
+    </AnchorWalletContext.Provider>
+  )
+}
+
+export function useAnchorWallet() {
+  return useContext(AnchorWalletContext)
+}
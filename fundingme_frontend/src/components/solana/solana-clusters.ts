@@ -0,0 +1,65 @@
+import { useSyncExternalStore } from 'react'
+import {
+  createSolanaDevnet,
+  createSolanaLocalnet,
+  createStorage,
+  createStorageCluster,
+  SolanaCluster,
+} from '@wallet-ui/react'
+import { getSolanaClusterMoniker } from '@wallet-ui/react-gill'
+import { getExplorerLink, GetExplorerLinkArgs, getPublicSolanaRpcUrl, SolanaClusterMoniker } from 'gill'
+
+export const CUSTOM_CLUSTER_ID = 'solana:custom'
+
+const devnet = createSolanaDevnet()
+// solana-test-validator on its default port
+const localnet = createSolanaLocalnet()
+
+export const defaultClusters = [devnet, localnet]
+
+// Id of the selected cluster, persisted across reloads
+export const clusterStorage = createStorageCluster()
+
+// RPC URL of the custom cluster, persisted next to the selected cluster id
+export const customRpcStorage = createStorage<string>({ initial: '', key: 'fundingme:custom-rpc' })
+
+export function useCustomRpcUrl() {
+  const store = customRpcStorage.value
+  return useSyncExternalStore(
+    (onChange) => store.subscribe(onChange),
+    () => store.get(),
+    () => customRpcStorage.initial,
+  )
+}
+
+export function getClusters(customRpcUrl: string): SolanaCluster[] {
+  return customRpcUrl
+    ? [...defaultClusters, { id: CUSTOM_CLUSTER_ID, label: 'Custom RPC', url: customRpcUrl }]
+    : defaultClusters
+}
+
+export function isValidRpcUrl(url: string) {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol)
+  } catch {
+    return false
+  }
+}
+
+// The default clusters carry a moniker ('devnet', 'localnet') as their url, only the custom cluster has a real URL.
+// gill resolves monikers itself, web3.js connections need the endpoint.
+export function getClusterRpcUrl(cluster: SolanaCluster) {
+  return isValidRpcUrl(cluster.url) ? cluster.url : getPublicSolanaRpcUrl(cluster.url as SolanaClusterMoniker)
+}
+
+// The explorer reaches a custom RPC through its customUrl parameter, gill only fills it in for localnet
+export function getClusterExplorerLink(cluster: SolanaCluster, link: GetExplorerLinkArgs) {
+  const url = new URL(
+    getExplorerLink({ ...link, cluster: getSolanaClusterMoniker(cluster.id) as GetExplorerLinkArgs['cluster'] }),
+  )
+  if (cluster.id === CUSTOM_CLUSTER_ID) {
+    url.searchParams.set('cluster', 'custom')
+    url.searchParams.set('customUrl', cluster.url)
+  }
+  return url.toString()
+}
@@ -1,21 +1,24 @@
-import { ReactNode } from 'react'
-import { createSolanaDevnet, createSolanaLocalnet, createWalletUiConfig, WalletUi } from '@wallet-ui/react'
+import { ReactNode, useMemo } from 'react'
+import { createWalletUiConfig, WalletUi } from '@wallet-ui/react'
 import { WalletUiGillProvider } from '@wallet-ui/react-gill'
 import { solanaMobileWalletAdapter } from './solana-mobile-wallet-adapter'
+import { clusterStorage, defaultClusters, getClusters, useCustomRpcUrl } from './solana-clusters'
+import { AnchorWalletProvider } from './anchor-wallet-provider'
 
-const devnet = createSolanaDevnet()
-const localnet = createSolanaLocalnet()
-
-const config = createWalletUiConfig({
-  clusters: [devnet, localnet],
-})
-
-solanaMobileWalletAdapter({ clusters: config.clusters })
+solanaMobileWalletAdapter({ clusters: defaultClusters })
 
 export function SolanaProvider({ children }: { children: ReactNode }) {
+  const customRpcUrl = useCustomRpcUrl()
+  const config = useMemo(
+    () => createWalletUiConfig({ clusters: getClusters(customRpcUrl), clusterStorage }),
+    [customRpcUrl],
+  )
+
   return (
     <WalletUi config={config}>
-      <WalletUiGillProvider>{children}</WalletUiGillProvider>
+      <WalletUiGillProvider>
+        <AnchorWalletProvider>{children}</AnchorWalletProvider>
+      </WalletUiGillProvider>
     </WalletUi>
   )
 }
@@ -1,5 +1,6 @@
 import { useWalletUi } from '@wallet-ui/react'
 import { useWalletUiGill } from '@wallet-ui/react-gill'
+import { useAnchorWallet } from './anchor-wallet-provider'
 
 /**
  * Custom hook to abstract Wallet UI and related functionality from your app.
@@ -9,9 +10,12 @@ import { useWalletUiGill } from '@wallet-ui/react-gill'
 export function useSolana() {
   const walletUi = useWalletUi()
   const client = useWalletUiGill()
+  const { connection, anchorWallet } = useAnchorWallet()
 
   return {
     ...walletUi,
     client,
+    connection,
+    anchorWallet,
   }
 }
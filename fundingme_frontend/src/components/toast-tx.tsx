@@ -1,5 +1,6 @@
 import { toast } from 'sonner'
 import { AppExplorerLink } from '@/components/app-explorer-link'
+import { translateError } from '@/lib/anchor/errors'
 
 export function toastTx(signature?: string, title = 'Transaction sent') {
   if (!signature) {
@@ -9,3 +10,8 @@ export function toastTx(signature?: string, title = 'Transaction sent') {
     description: <AppExplorerLink transaction={signature} label="View Transaction" />,
   })
 }
+
+export function toastError(error: unknown, fallbackTitle?: string) {
+  const { title, description } = translateError(error, fallbackTitle)
+  toast.error(title, { description })
+}
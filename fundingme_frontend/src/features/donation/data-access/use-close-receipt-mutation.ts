@@ -0,0 +1,26 @@
+import { useMutation } from '@tanstack/react-query'
+import { DonationData } from '@/lib/anchor/client'
+import { toastError, toastTx } from '@/components/toast-tx'
+import { assertWalletConnected, useFundingClient } from '@/features/project/data-access/use-funding-client'
+import { useInvalidateDonatorPortfolioQuery } from './use-invalidate-donator-portfolio-query'
+
+// Donator of a successful or withdrawn project: closes the donation receipt and gets its rent back
+export function useCloseReceiptMutation({ donation }: { donation: DonationData }) {
+  const { client, user } = useFundingClient()
+  const invalidatePortfolioQuery = useInvalidateDonatorPortfolioQuery({ donator: donation.donator })
+
+  return useMutation({
+    mutationFn: async () => {
+      assertWalletConnected(user)
+      return client.closeReceipts(user, donation.project, [donation])
+    },
+    onSuccess: async (signature) => {
+      toastTx(signature, 'Receipt rent returned!')
+      await invalidatePortfolioQuery()
+    },
+    onError: (error) => {
+      console.error('Error closing donation receipt:', error)
+      toastError(error, 'Error closing donation receipt')
+    },
+  })
+}
@@ -0,0 +1,8 @@
+import { PublicKey } from '@solana/web3.js'
+import { useSolana } from '@/components/solana/use-solana'
+
+export function useDonatorPortfolioQueryKey({ donator }: { donator?: PublicKey }) {
+  const { cluster } = useSolana()
+
+  return ['donator-portfolio', { cluster, donator: donator?.toBase58() }]
+}
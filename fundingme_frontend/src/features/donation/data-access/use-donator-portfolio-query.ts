@@ -0,0 +1,26 @@
+import { PublicKey } from '@solana/web3.js'
+import { useQuery } from '@tanstack/react-query'
+import { DonationData, ProjectData } from '@/lib/anchor/client'
+import { useFundingClient } from '@/features/project/data-access/use-funding-client'
+import { useDonatorPortfolioQueryKey } from './use-donator-portfolio-query-key'
+
+export type PortfolioItem = {
+  donation: DonationData
+  // Null once the owner withdrew the funds and closed the project account
+  project: ProjectData | null
+}
+
+// Every project a wallet backed, found through its donation receipts. Refunded donations are not listed.
+export function useDonatorPortfolioQuery({ donator }: { donator?: PublicKey }) {
+  const { client } = useFundingClient()
+
+  return useQuery({
+    queryKey: useDonatorPortfolioQueryKey({ donator }),
+    queryFn: async (): Promise<PortfolioItem[]> => {
+      const donations = await client.fetchDonationsByDonator(donator!)
+      const projects = await client.fetchProjectsByAddress(donations.map((donation) => donation.project))
+      return donations.map((donation, index) => ({ donation, project: projects[index] }))
+    },
+    enabled: !!donator,
+  })
+}
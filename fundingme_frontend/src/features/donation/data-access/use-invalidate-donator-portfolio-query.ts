@@ -0,0 +1,11 @@
+import { PublicKey } from '@solana/web3.js'
+import { useQueryClient } from '@tanstack/react-query'
+import { useDonatorPortfolioQueryKey } from './use-donator-portfolio-query-key'
+
+export function useInvalidateDonatorPortfolioQuery({ donator }: { donator?: PublicKey }) {
+  const queryClient = useQueryClient()
+  const queryKey = useDonatorPortfolioQueryKey({ donator })
+  return async () => {
+    await queryClient.invalidateQueries({ queryKey })
+  }
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { useSolana } from '@/components/solana/use-solana'
+import { WalletDropdown } from '@/components/wallet-dropdown'
+import { useFundingClient } from '@/features/project/data-access/use-funding-client'
+import { useDonatorPortfolioQuery } from './data-access/use-donator-portfolio-query'
+import { DonationUiPortfolioItem } from './ui/donation-ui-portfolio-item'
+
+export default function DonationFeature() {
+  const { account } = useSolana()
+  const { user } = useFundingClient()
+  const query = useDonatorPortfolioQuery({ donator: user ?? undefined })
+
+  if (!account || !user) {
+    return (
+      <div className="hero py-[64px]">
+        <div className="hero-content text-center">
+          <WalletDropdown />
+        </div>
+      </div>
+    )
+  }
+
+  const items = query.data ?? []
+  const refundable = items.filter(({ project }) => project && 'failed' in project.status).length
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
+      <div className="max-w-6xl mx-auto px-4 space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">My Donations</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              {items.length} project{items.length === 1 ? '' : 's'} backed
+              {refundable > 0 && `, ${refundable} with a refund to claim`}
+            </p>
+          </div>
+          <button
+            onClick={() => query.refetch()}
+            disabled={query.isFetching}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg disabled:opacity-50 hover:bg-blue-700"
+          >
+            {query.isFetching ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+
+        {query.isError && (
+          <p className="text-red-600 dark:text-red-400">
+            Error loading your donations. Make sure you are connected to the correct network.
+          </p>
+        )}
+
+        {items.length === 0 ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center text-gray-600 dark:text-gray-400">
+            {query.isLoading ? 'Loading your donations...' : "You haven't backed any projects yet."}
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {items.map((item) => (
+              <DonationUiPortfolioItem key={item.donation.address.toString()} item={item} donator={user} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+import Link from 'next/link'
+import { PublicKey } from '@solana/web3.js'
+import { DonationData, ProjectData } from '@/lib/anchor/client'
+import { formatAmount, SOL_DECIMALS } from '@/lib/amount'
+import { ProjectStatusBadge } from '@/components/ProjectStatusBadge'
+import { AppExplorerLink } from '@/components/app-explorer-link'
+import { useClaimRefundMutation } from '@/features/project/data-access/use-claim-refund-mutation'
+import { useDonationReceiptRentQuery } from '@/features/project/data-access/use-donation-receipt-rent-query'
+import { useMintQuery } from '@/features/project/data-access/use-mint-query'
+import { getProjectPath, getProjectUnits } from '@/features/project/project-utils'
+import { useCloseReceiptMutation } from '../data-access/use-close-receipt-mutation'
+import { PortfolioItem } from '../data-access/use-donator-portfolio-query'
+import { useInvalidateDonatorPortfolioQuery } from '../data-access/use-invalidate-donator-portfolio-query'
+
+export function DonationUiPortfolioItem({ item, donator }: { item: PortfolioItem; donator: PublicKey }) {
+  if (!item.project) {
+    return <DonationUiWithdrawnProject donation={item.donation} />
+  }
+  return <DonationUiBackedProject donation={item.donation} project={item.project} donator={donator} />
+}
+
+function DonationUiBackedProject({
+  donation,
+  project,
+  donator,
+}: {
+  donation: DonationData
+  project: ProjectData
+  donator: PublicKey
+}) {
+  const mintQuery = useMintQuery({ mint: project.mint ?? undefined })
+  const units = getProjectUnits(project, mintQuery.data, false)
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-5 flex flex-col gap-3">
+      <div className="flex justify-between items-start gap-2">
+        <Link
+          href={getProjectPath(project.owner, project.projectId)}
+          className="font-semibold text-gray-900 dark:text-gray-100 break-all hover:underline"
+        >
+          {project.name}
+        </Link>
+        <ProjectStatusBadge status={project.status} />
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+        Owner: {project.owner.toString().slice(0, 8)}...{project.owner.toString().slice(-4)} · #{project.projectId}
+      </p>
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600 dark:text-gray-400">You gave</span>
+        <span className="font-semibold">
+          {units.format(donation.amount, 4)} {units.currency}
+        </span>
+      </div>
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600 dark:text-gray-400">Raised</span>
+        <span>
+          {units.format(project.balance, 2)} / {units.format(project.financialTarget, 2)} {units.currency}
+        </span>
+      </div>
+      {'failed' in project.status && <DonationUiClaimRefund project={project} donator={donator} />}
+      {'success' in project.status && <DonationUiCloseReceipt donation={donation} />}
+    </div>
+  )
+}
+
+function DonationUiClaimRefund({ project, donator }: { project: ProjectData; donator: PublicKey }) {
+  const mutation = useClaimRefundMutation({ project })
+  const invalidatePortfolioQuery = useInvalidateDonatorPortfolioQuery({ donator })
+
+  return (
+    <div className="p-3 bg-red-100 dark:bg-red-900/30 border border-red-300 dark:border-red-600 rounded-lg space-y-2">
+      <p className="text-red-800 dark:text-red-200 text-sm">This project failed, your donation can be refunded.</p>
+      <button
+        onClick={() => mutation.mutate(undefined, { onSuccess: () => invalidatePortfolioQuery() })}
+        disabled={mutation.isPending}
+        className="w-full bg-red-600 text-white py-2 rounded-lg disabled:opacity-50 hover:bg-red-700"
+      >
+        {mutation.isPending ? 'Claiming...' : 'Claim Your Refund'}
+      </button>
+    </div>
+  )
+}
+
+// The receipt does not record the currency, so its amount is shown in base units
+function DonationUiWithdrawnProject({ donation }: { donation: DonationData }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-5 flex flex-col gap-3">
+      <div className="flex justify-between items-start gap-2">
+        <span className="font-semibold text-gray-900 dark:text-gray-100">Completed project</span>
+        <span className="px-2 py-1 rounded text-xs font-semibold text-gray-600 dark:text-gray-400 bg-gray-100 dark:bg-gray-800/50">
+          Withdrawn
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        The owner withdrew the funds and closed the project account{' '}
+        <AppExplorerLink
+          address={donation.project.toString()}
+          label={`${donation.project.toString().slice(0, 8)}...`}
+          className="font-mono inline-flex gap-1 hover:underline"
+        />
+        .
+      </p>
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600 dark:text-gray-400">You gave</span>
+        <span className="font-semibold">{donation.amount.toString()} base units</span>
+      </div>
+      <DonationUiCloseReceipt donation={donation} />
+    </div>
+  )
+}
+
+// The donation stays with the owner of a successful project, only the rent of the receipt goes back to the donator
+function DonationUiCloseReceipt({ donation }: { donation: DonationData }) {
+  const mutation = useCloseReceiptMutation({ donation })
+  const receiptRentQuery = useDonationReceiptRentQuery()
+  const rent =
+    receiptRentQuery.data === undefined ? 'its' : `the ${formatAmount(BigInt(receiptRentQuery.data), SOL_DECIMALS)} SOL`
+
+  return (
+    <div className="p-3 bg-green-100 dark:bg-green-900/30 border border-green-300 dark:border-green-600 rounded-lg space-y-2">
+      <p className="text-green-800 dark:text-green-200 text-sm">
+        This project succeeded. Close your donation receipt to get {rent} rent back.
+      </p>
+      <button
+        onClick={() => mutation.mutate()}
+        disabled={mutation.isPending}
+        className="w-full bg-green-600 text-white py-2 rounded-lg disabled:opacity-50 hover:bg-green-700"
+      >
+        {mutation.isPending ? 'Closing...' : 'Close Receipt'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import { useMutation } from '@tanstack/react-query'
+import { ProjectData } from '@/lib/anchor/client'
+import { toastError, toastTx } from '@/components/toast-tx'
+import { assertWalletConnected, useFundingClient } from './use-funding-client'
+import { useInvalidateProjectQuery } from './use-invalidate-project-query'
+
+// Donator only: returns the donation of a failed project and closes the donation receipt
+export function useClaimRefundMutation({ project }: { project: ProjectData }) {
+  const { client, user } = useFundingClient()
+  const invalidateProjectQuery = useInvalidateProjectQuery({ project })
+
+  return useMutation({
+    mutationFn: async () => {
+      assertWalletConnected(user)
+      return project.mint
+        ? client.claimTokenRefund(user, project.owner, project.projectId)
+        : client.claimRefund(user, project.owner, project.projectId)
+    },
+    onSuccess: async (signature) => {
+      toastTx(signature, 'Refund claimed successfully!')
+      await invalidateProjectQuery()
+    },
+    onError: (error) => {
+      console.error('Error claiming refund:', error)
+      toastError(error, 'Error claiming refund')
+    },
+  })
+}
@@ -0,0 +1,31 @@
+import { useMutation } from '@tanstack/react-query'
+import { ProjectData } from '@/lib/anchor/client'
+import { toastError, toastTx } from '@/components/toast-tx'
+import { assertWalletConnected, useFundingClient } from './use-funding-client'
+import { useInvalidateProjectQuery } from './use-invalidate-project-query'
+import { useSetProjectQueryData } from './use-set-project-query-data'
+
+// Owner only: closes a failed project once every donator has claimed their refund
+export function useCloseFailedProjectMutation({ project }: { project: ProjectData }) {
+  const { client, user } = useFundingClient()
+  const setProjectQueryData = useSetProjectQueryData({ project })
+  const invalidateProjectQuery = useInvalidateProjectQuery({ project })
+
+  return useMutation({
+    mutationFn: async () => {
+      assertWalletConnected(user)
+      return project.mint
+        ? client.closeFailedTokenProject(user, project.owner, project.projectId)
+        : client.closeFailedProject(user, project.owner, project.projectId)
+    },
+    onSuccess: async (signature) => {
+      toastTx(signature, 'Failed project closed successfully!')
+      setProjectQueryData(null)
+      await invalidateProjectQuery()
+    },
+    onError: (error) => {
+      console.error('Error closing failed project:', error)
+      toastError(error, 'Error closing failed project')
+    },
+  })
+}
@@ -0,0 +1,26 @@
+import { useMutation } from '@tanstack/react-query'
+import { ProjectData } from '@/lib/anchor/client'
+import { toastError, toastTx } from '@/components/toast-tx'
+import { assertWalletConnected, useFundingClient } from './use-funding-client'
+import { useInvalidateProjectQuery } from './use-invalidate-project-query'
+
+// Owner only: ends donations early, the project becomes Success when its target is reached and Failed otherwise
+export function useCloseProjectMutation({ project }: { project: ProjectData }) {
+  const { client, user } = useFundingClient()
+  const invalidateProjectQuery = useInvalidateProjectQuery({ project })
+
+  return useMutation({
+    mutationFn: async () => {
+      assertWalletConnected(user)
+      return client.closeProject(user, project.owner, project.projectId)
+    },
+    onSuccess: async (signature) => {
+      toastTx(signature, 'Project status updated!')
+      await invalidateProjectQuery()
+    },
+    onError: (error) => {
+      console.error('Error closing project:', error)
+      toastError(error, 'Error updating project status')
+    },
+  })
+}
@@ -0,0 +1,34 @@
+import { PublicKey } from '@solana/web3.js'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { toastError, toastTx } from '@/components/toast-tx'
+import { assertWalletConnected, useFundingClient } from './use-funding-client'
+import { useOwnerProjectsQueryKey } from './use-owner-projects-query-key'
+
+// Creates a SOL project, or a token project when a mint is given, owned by the connected wallet
+export function useCreateProjectMutation() {
+  const { client, user } = useFundingClient()
+  const queryClient = useQueryClient()
+  const ownerProjectsQueryKey = useOwnerProjectsQueryKey({ owner: user ?? undefined })
+
+  return useMutation({
+    mutationFn: async (input: {
+      name: string
+      financialTarget: bigint
+      mint: PublicKey | null
+      deadline: Date | null
+    }) => {
+      assertWalletConnected(user)
+      return input.mint
+        ? client.createTokenProject(user, input.name, input.mint, input.financialTarget, input.deadline)
+        : client.createProject(user, input.name, input.financialTarget, input.deadline)
+    },
+    onSuccess: async ({ signature }) => {
+      toastTx(signature, 'Project created successfully!')
+      await queryClient.invalidateQueries({ queryKey: ownerProjectsQueryKey })
+    },
+    onError: (error) => {
+      console.error('Error creating project:', error)
+      toastError(error, 'Error creating project')
+    },
+  })
+}
@@ -0,0 +1,16 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+import { useSolana } from '@/components/solana/use-solana'
+import { useFundingClient } from './use-funding-client'
+
+// Rent deposit for a new project of the connected wallet, the project account is sized from its name
+export function useCreateProjectRentQuery({ name }: { name: string }) {
+  const { cluster } = useSolana()
+  const { client, user } = useFundingClient()
+
+  return useQuery({
+    queryKey: ['create-project-rent', { cluster, owner: user?.toBase58(), name }],
+    queryFn: () => client.getCreateProjectRent(user!, name),
+    enabled: !!user,
+    placeholderData: keepPreviousData,
+  })
+}
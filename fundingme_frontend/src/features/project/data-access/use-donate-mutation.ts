@@ -0,0 +1,78 @@
+import { PublicKey } from '@solana/web3.js'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { DonationData, ProjectData } from '@/lib/anchor/client'
+import { toastError, toastTx } from '@/components/toast-tx'
+import { assertWalletConnected, useFundingClient } from './use-funding-client'
+import { useInvalidateProjectQuery } from './use-invalidate-project-query'
+import { useProjectDonationsQueryKey } from './use-project-donations-query-key'
+import { useProjectQueryKey } from './use-project-query-key'
+import { useSetProjectQueryData } from './use-set-project-query-data'
+
+// Donates `amount` base units, taken from `donatorTokenAccount` (the associated token account by default) for token
+// projects. The donation shows up right away and is rolled back when the transaction fails.
+export function useDonateMutation({ project }: { project: ProjectData }) {
+  const { client, user } = useFundingClient()
+  const queryClient = useQueryClient()
+  const projectQueryKey = useProjectQueryKey({ owner: project.owner, projectId: project.projectId })
+  const donationsQueryKey = useProjectDonationsQueryKey({ project: project.address })
+  const setProjectQueryData = useSetProjectQueryData({ project })
+  const invalidateProjectQuery = useInvalidateProjectQuery({ project })
+
+  return useMutation({
+    mutationFn: async (input: { amount: bigint; donatorTokenAccount?: PublicKey }) => {
+      assertWalletConnected(user)
+      return project.mint
+        ? client.donateToken(user, project.owner, project.projectId, input.amount, input.donatorTokenAccount ?? null)
+        : client.donate(user, project.owner, project.projectId, input.amount)
+    },
+    onMutate: async ({ amount }) => {
+      if (!user) return
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: projectQueryKey }),
+        queryClient.cancelQueries({ queryKey: donationsQueryKey }),
+      ])
+      const previousProject = queryClient.getQueryData<ProjectData | null>(projectQueryKey) ?? project
+      const previousDonations = queryClient.getQueryData<DonationData[]>(donationsQueryKey)
+
+      // Same bookkeeping as record_donation in the program
+      const receipt = previousDonations?.find((d) => d.donator.equals(user))
+      const balance = previousProject.balance + amount
+      setProjectQueryData({
+        ...previousProject,
+        balance,
+        donatorCount: previousProject.donatorCount + (previousDonations && !receipt ? 1 : 0),
+        status: balance >= previousProject.financialTarget ? { targetReached: {} } : previousProject.status,
+      })
+      if (previousDonations) {
+        const donation: DonationData = receipt
+          ? { ...receipt, amount: receipt.amount + amount }
+          : {
+              address: client.getDonationPDA(project.address, user)[0],
+              project: project.address,
+              donator: user,
+              amount,
+              bump: 0,
+            }
+        queryClient.setQueryData<DonationData[]>(
+          donationsQueryKey,
+          [donation, ...previousDonations.filter((d) => d !== receipt)].sort((a, b) =>
+            b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0,
+          ),
+        )
+      }
+      return { previousProject, previousDonations }
+    },
+    onSuccess: async (signature) => {
+      toastTx(signature, 'Donation successful!')
+      await invalidateProjectQuery()
+    },
+    onError: (error, _input, context) => {
+      if (context) {
+        setProjectQueryData(context.previousProject)
+        queryClient.setQueryData(donationsQueryKey, context.previousDonations)
+      }
+      console.error('Error donating:', error)
+      toastError(error, 'Error making donation')
+    },
+  })
+}
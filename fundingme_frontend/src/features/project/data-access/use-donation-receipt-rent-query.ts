@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query'
+import { useSolana } from '@/components/solana/use-solana'
+import { useFundingClient } from './use-funding-client'
+
+// Rent a donator pays for their donation receipt on their first donation to a project
+export function useDonationReceiptRentQuery() {
+  const { cluster } = useSolana()
+  const { client } = useFundingClient()
+
+  return useQuery({
+    staleTime: Infinity,
+    queryKey: ['donation-receipt-rent', { cluster }],
+    queryFn: () => client.getDonationReceiptRent(),
+  })
+}
@@ -0,0 +1,26 @@
+import { useMutation } from '@tanstack/react-query'
+import { ProjectData } from '@/lib/anchor/client'
+import { toastError, toastTx } from '@/components/toast-tx'
+import { assertWalletConnected, useFundingClient } from './use-funding-client'
+import { useInvalidateProjectQuery } from './use-invalidate-project-query'
+
+// Any wallet can finalize a project once its deadline has passed
+export function useFinalizeProjectMutation({ project }: { project: ProjectData }) {
+  const { client, user } = useFundingClient()
+  const invalidateProjectQuery = useInvalidateProjectQuery({ project })
+
+  return useMutation({
+    mutationFn: async () => {
+      assertWalletConnected(user)
+      return client.finalizeProject(user, project.owner, project.projectId)
+    },
+    onSuccess: async (signature) => {
+      toastTx(signature, 'Project finalized!')
+      await invalidateProjectQuery()
+    },
+    onError: (error) => {
+      console.error('Error finalizing project:', error)
+      toastError(error, 'Error finalizing project')
+    },
+  })
+}
@@ -0,0 +1,27 @@
+import { useMemo } from 'react'
+import { AnchorProvider } from '@coral-xyz/anchor'
+import { PublicKey } from '@solana/web3.js'
+import { useSolana } from '@/components/solana/use-solana'
+import { getClient, getReadonlyClient } from '@/lib/anchor/setup'
+
+// Program client of the selected cluster signing with the connected wallet (`user`), read-only until one is connected
+export function useFundingClient() {
+  const { anchorWallet, connection } = useSolana()
+
+  return useMemo(
+    () =>
+      anchorWallet
+        ? {
+            client: getClient(new AnchorProvider(connection, anchorWallet, { commitment: 'confirmed' })),
+            user: anchorWallet.publicKey,
+          }
+        : { client: getReadonlyClient(connection), user: null },
+    [anchorWallet, connection],
+  )
+}
+
+export function assertWalletConnected(user: PublicKey | null): asserts user is PublicKey {
+  if (!user) {
+    throw new Error('Please connect your wallet first')
+  }
+}
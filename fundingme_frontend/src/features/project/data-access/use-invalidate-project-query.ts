@@ -0,0 +1,24 @@
+import { useQueryClient } from '@tanstack/react-query'
+import { ProjectData } from '@/lib/anchor/client'
+import { useOwnerProjectsQueryKey } from './use-owner-projects-query-key'
+import { useProjectActivityQueryKey } from './use-project-activity-query-key'
+import { useProjectDonationsQueryKey } from './use-project-donations-query-key'
+import { useProjectQueryKey } from './use-project-query-key'
+
+// Refetches a project together with the owner's project list, its donation receipts and its activity
+export function useInvalidateProjectQuery({ project }: { project: ProjectData }) {
+  const queryClient = useQueryClient()
+  const projectQueryKey = useProjectQueryKey({ owner: project.owner, projectId: project.projectId })
+  const ownerProjectsQueryKey = useOwnerProjectsQueryKey({ owner: project.owner })
+  const donationsQueryKey = useProjectDonationsQueryKey({ project: project.address })
+  const activityQueryKey = useProjectActivityQueryKey({ project: project.address })
+
+  return async () => {
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: projectQueryKey }),
+      queryClient.invalidateQueries({ queryKey: ownerProjectsQueryKey }),
+      queryClient.invalidateQueries({ queryKey: donationsQueryKey }),
+      queryClient.invalidateQueries({ queryKey: activityQueryKey }),
+    ])
+  }
+}
@@ -0,0 +1,18 @@
+import { PublicKey } from '@solana/web3.js'
+import { useQuery } from '@tanstack/react-query'
+import { useSolana } from '@/components/solana/use-solana'
+import { useFundingClient } from './use-funding-client'
+
+// Decimals and token program of a mint, they never change so the result is kept for the session
+export function useMintQuery({ mint }: { mint?: PublicKey }) {
+  const { cluster } = useSolana()
+  const { client } = useFundingClient()
+
+  return useQuery({
+    retry: false,
+    staleTime: Infinity,
+    queryKey: ['mint', { cluster, mint: mint?.toBase58() }],
+    queryFn: () => client.fetchMint(mint!),
+    enabled: !!mint,
+  })
+}
@@ -0,0 +1,8 @@
+import { PublicKey } from '@solana/web3.js'
+import { useSolana } from '@/components/solana/use-solana'
+
+export function useOwnerProjectsQueryKey({ owner }: { owner?: PublicKey }) {
+  const { cluster } = useSolana()
+
+  return ['owner-projects', { cluster, owner: owner?.toBase58() }]
+}
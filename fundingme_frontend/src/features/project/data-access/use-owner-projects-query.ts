@@ -0,0 +1,15 @@
+import { PublicKey } from '@solana/web3.js'
+import { useQuery } from '@tanstack/react-query'
+import { useFundingClient } from './use-funding-client'
+import { useOwnerProjectsQueryKey } from './use-owner-projects-query-key'
+
+// Every project of an owner that still exists, oldest first
+export function useOwnerProjectsQuery({ owner }: { owner?: PublicKey }) {
+  const { client } = useFundingClient()
+
+  return useQuery({
+    queryKey: useOwnerProjectsQueryKey({ owner }),
+    queryFn: () => client.fetchProjects(owner!),
+    enabled: !!owner,
+  })
+}
@@ -0,0 +1,40 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { ProjectData } from '@/lib/anchor/client'
+import { toastError, toastTx } from '@/components/toast-tx'
+import { assertWalletConnected, useFundingClient } from './use-funding-client'
+import { useInvalidateProjectQuery } from './use-invalidate-project-query'
+import { useProjectQueryKey } from './use-project-query-key'
+import { useSetProjectQueryData } from './use-set-project-query-data'
+
+// Owner only: blocks donations until the project is resumed. Shown as paused right away, rolled back on failure.
+export function usePauseProjectMutation({ project }: { project: ProjectData }) {
+  const { client, user } = useFundingClient()
+  const queryClient = useQueryClient()
+  const projectQueryKey = useProjectQueryKey({ owner: project.owner, projectId: project.projectId })
+  const setProjectQueryData = useSetProjectQueryData({ project })
+  const invalidateProjectQuery = useInvalidateProjectQuery({ project })
+
+  return useMutation({
+    mutationFn: async () => {
+      assertWalletConnected(user)
+      return client.pauseProject(user, project.owner, project.projectId)
+    },
+    onMutate: async () => {
+      await queryClient.cancelQueries({ queryKey: projectQueryKey })
+      const previousProject = queryClient.getQueryData<ProjectData | null>(projectQueryKey) ?? project
+      setProjectQueryData({ ...previousProject, status: { paused: {} } })
+      return { previousProject }
+    },
+    onSuccess: async (signature) => {
+      toastTx(signature, 'Project paused!')
+      await invalidateProjectQuery()
+    },
+    onError: (error, _input, context) => {
+      if (context) {
+        setProjectQueryData(context.previousProject)
+      }
+      console.error('Error pausing project:', error)
+      toastError(error, 'Error pausing project')
+    },
+  })
+}
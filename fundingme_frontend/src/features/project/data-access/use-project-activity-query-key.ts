@@ -0,0 +1,8 @@
+import { PublicKey } from '@solana/web3.js'
+import { useSolana } from '@/components/solana/use-solana'
+
+export function useProjectActivityQueryKey({ project }: { project: PublicKey }) {
+  const { cluster } = useSolana()
+
+  return ['project-activity', { cluster, project: project.toBase58() }]
+}
@@ -0,0 +1,16 @@
+import { PublicKey } from '@solana/web3.js'
+import { useInfiniteQuery } from '@tanstack/react-query'
+import { useFundingClient } from './use-funding-client'
+import { useProjectActivityQueryKey } from './use-project-activity-query-key'
+
+// Activity of a project, newest first, one page of transactions at a time
+export function useProjectActivityQuery({ project }: { project: PublicKey }) {
+  const { client } = useFundingClient()
+
+  return useInfiniteQuery({
+    queryKey: useProjectActivityQueryKey({ project }),
+    queryFn: ({ pageParam }) => client.fetchProjectActivity(project, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (page) => page.cursor ?? undefined,
+  })
+}
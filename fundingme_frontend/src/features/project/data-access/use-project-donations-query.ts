@@ -0,0 +1,14 @@
+import { PublicKey } from '@solana/web3.js'
+import { useQuery } from '@tanstack/react-query'
+import { useFundingClient } from './use-funding-client'
+import { useProjectDonationsQueryKey } from './use-project-donations-query-key'
+
+// Donation receipts of a project, largest donation first
+export function useProjectDonationsQuery({ project }: { project: PublicKey }) {
+  const { client } = useFundingClient()
+
+  return useQuery({
+    queryKey: useProjectDonationsQueryKey({ project }),
+    queryFn: () => client.fetchDonations(project),
+  })
+}
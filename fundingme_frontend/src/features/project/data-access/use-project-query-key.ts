@@ -0,0 +1,8 @@
+import { PublicKey } from '@solana/web3.js'
+import { useSolana } from '@/components/solana/use-solana'
+
+export function useProjectQueryKey({ owner, projectId }: { owner?: PublicKey; projectId?: number }) {
+  const { cluster } = useSolana()
+
+  return ['project', { cluster, owner: owner?.toBase58(), projectId }]
+}
@@ -0,0 +1,22 @@
+import { PublicKey } from '@solana/web3.js'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { ProjectData } from '@/lib/anchor/client'
+import { useFundingClient } from './use-funding-client'
+import { useOwnerProjectsQueryKey } from './use-owner-projects-query-key'
+import { useProjectQueryKey } from './use-project-query-key'
+
+// A single project, null once its account is closed. Starts from the owner's project list when that is loaded.
+export function useProjectQuery({ owner, projectId }: { owner?: PublicKey; projectId?: number }) {
+  const { client } = useFundingClient()
+  const queryClient = useQueryClient()
+  const ownerProjectsQueryKey = useOwnerProjectsQueryKey({ owner })
+
+  return useQuery({
+    queryKey: useProjectQueryKey({ owner, projectId }),
+    queryFn: () => client.fetchProject(owner!, projectId!),
+    enabled: !!owner && projectId !== undefined,
+    initialData: () =>
+      queryClient.getQueryData<ProjectData[]>(ownerProjectsQueryKey)?.find((p) => p.projectId === projectId),
+    initialDataUpdatedAt: () => queryClient.getQueryState(ownerProjectsQueryKey)?.dataUpdatedAt,
+  })
+}
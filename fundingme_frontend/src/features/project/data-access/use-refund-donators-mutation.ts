@@ -0,0 +1,40 @@
+import { useMutation } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { ProjectData, RefundProgress } from '@/lib/anchor/client'
+import { toastError, toastTx } from '@/components/toast-tx'
+import { assertWalletConnected, useFundingClient } from './use-funding-client'
+import { useInvalidateProjectQuery } from './use-invalidate-project-query'
+
+// Owner of a failed project: refunds every remaining donator in batches, one wallet approval per batch
+export function useRefundDonatorsMutation({
+  project,
+  onProgress,
+}: {
+  project: ProjectData
+  onProgress: (progress: RefundProgress) => void
+}) {
+  const { client, user } = useFundingClient()
+  const invalidateProjectQuery = useInvalidateProjectQuery({ project })
+
+  return useMutation({
+    mutationFn: async () => {
+      assertWalletConnected(user)
+      return client.refundDonators(user, project.owner, project.projectId, onProgress)
+    },
+    onSuccess: async (signatures) => {
+      // Every donator claimed their refund while the panel was open
+      if (signatures.length === 0) {
+        toast.info('Nothing left to refund', { description: 'Every donator has already been refunded.' })
+      } else {
+        toastTx(signatures[signatures.length - 1], 'All donators refunded!')
+      }
+      await invalidateProjectQuery()
+    },
+    onError: async (error) => {
+      console.error('Error refunding donators:', error)
+      toastError(error, 'Error refunding donators')
+      // Batches sent before the error went through
+      await invalidateProjectQuery()
+    },
+  })
+}
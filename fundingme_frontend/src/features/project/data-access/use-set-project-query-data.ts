@@ -0,0 +1,18 @@
+import { useQueryClient } from '@tanstack/react-query'
+import { ProjectData } from '@/lib/anchor/client'
+import { useOwnerProjectsQueryKey } from './use-owner-projects-query-key'
+import { useProjectQueryKey } from './use-project-query-key'
+
+// Writes a new state of a project into its query and the owner's project list, null removes a closed project
+export function useSetProjectQueryData({ project }: { project: ProjectData }) {
+  const queryClient = useQueryClient()
+  const projectQueryKey = useProjectQueryKey({ owner: project.owner, projectId: project.projectId })
+  const ownerProjectsQueryKey = useOwnerProjectsQueryKey({ owner: project.owner })
+
+  return (updated: ProjectData | null) => {
+    queryClient.setQueryData<ProjectData | null>(projectQueryKey, updated)
+    queryClient.setQueryData<ProjectData[]>(ownerProjectsQueryKey, (projects) =>
+      projects?.flatMap((p) => (p.address.equals(project.address) ? (updated ? [updated] : []) : [p])),
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { useEffect, useRef } from 'react'
+import { PublicKey } from '@solana/web3.js'
+import { toast } from 'sonner'
+import { useQueryClient } from '@tanstack/react-query'
+import { getStatusVariant, ProjectData, STATUS_TEXT } from '@/lib/anchor/client'
+import { ProjectEvent } from '@/lib/anchor/events'
+import { useFundingClient } from './use-funding-client'
+import { useProjectActivityQueryKey } from './use-project-activity-query-key'
+import { useProjectDonationsQueryKey } from './use-project-donations-query-key'
+import { useProjectQueryKey } from './use-project-query-key'
+import { useSetProjectQueryData } from './use-set-project-query-data'
+
+// Whether a watched project changed in a way the view shows, polling also reports unchanged accounts
+function hasProjectChanged(current: ProjectData, updated: ProjectData) {
+  return (
+    current.balance !== updated.balance ||
+    current.donatorCount !== updated.donatorCount ||
+    getStatusVariant(current.status) !== getStatusVariant(updated.status) ||
+    current.deadline?.getTime() !== updated.deadline?.getTime()
+  )
+}
+
+// State of the project after an event, null once it is closed
+function applyProjectEvent(current: ProjectData, event: ProjectEvent): ProjectData | null {
+  switch (event.name) {
+    case 'donationReceived':
+      return {
+        ...current,
+        balance: BigInt(event.data.balance.toString()),
+        donatorCount: event.data.donatorCount.toNumber(),
+      }
+    case 'refundClaimed':
+      return {
+        ...current,
+        balance: BigInt(event.data.balance.toString()),
+        donatorCount: event.data.remainingDonators.toNumber(),
+      }
+    case 'statusChanged':
+      return { ...current, status: event.data.status }
+    case 'projectClosed':
+      return null
+    default:
+      return current
+  }
+}
+
+// Announces what other wallets did to the project, the connected wallet already sees its own transactions. Called by
+// whichever subscription brings a change first, the donator is only known from a donation event.
+function announceProjectChange(
+  current: ProjectData,
+  updated: ProjectData | null,
+  user: PublicKey | null,
+  donator: PublicKey | null = null,
+) {
+  if (!updated) {
+    if (!user?.equals(current.owner)) toast.info(`Project "${current.name}" was closed`)
+    return
+  }
+  if (updated.balance > current.balance && !(user && donator?.equals(user))) {
+    toast.success(`New donation to "${current.name}"`)
+  }
+  // Owners pause, resume and close their projects themselves, reaching the target comes from a donator
+  const status = getStatusVariant(updated.status)
+  if (status !== getStatusVariant(current.status) && (!user?.equals(current.owner) || status === 'targetReached')) {
+    toast.info(`"${current.name}" is now ${STATUS_TEXT[status]}`)
+  }
+}
+
+// Keeps the project queries live: donations from other wallets, status changes and the account being closed by
+// withdraw show up without reloading. The program events update the cache as soon as a transaction is confirmed, the
+// account subscription (polled on RPCs without websockets, where no events arrive) keeps it in sync. Each change is
+// announced once, by the subscription that brings it first.
+export function useWatchProject({ project }: { project: ProjectData }) {
+  const { client, user } = useFundingClient()
+  const queryClient = useQueryClient()
+  const projectQueryKey = useProjectQueryKey({ owner: project.owner, projectId: project.projectId })
+  const donationsQueryKey = useProjectDonationsQueryKey({ project: project.address })
+  const activityQueryKey = useProjectActivityQueryKey({ project: project.address })
+  const setProjectQueryData = useSetProjectQueryData({ project })
+
+  // The subscriptions outlive renders, they read the query keys of the latest one
+  const latest = useRef({ user, projectQueryKey, donationsQueryKey, activityQueryKey, setProjectQueryData })
+  useEffect(() => {
+    latest.current = { user, projectQueryKey, donationsQueryKey, activityQueryKey, setProjectQueryData }
+  })
+
+  const projectAddress = project.address.toBase58()
+  useEffect(() => {
+    return client.watchProjectEvents(new PublicKey(projectAddress), (event) => {
+      const { user, projectQueryKey, donationsQueryKey, activityQueryKey, setProjectQueryData } = latest.current
+      const current = queryClient.getQueryData<ProjectData | null>(projectQueryKey)
+      if (!current) return
+
+      const updated = applyProjectEvent(current, event)
+      if (!updated || hasProjectChanged(current, updated)) {
+        announceProjectChange(current, updated, user, event.name === 'donationReceived' ? event.data.donator : null)
+        setProjectQueryData(updated)
+      }
+      queryClient.invalidateQueries({ queryKey: activityQueryKey })
+      if (event.name === 'donationReceived' || event.name === 'refundClaimed') {
+        queryClient.invalidateQueries({ queryKey: donationsQueryKey })
+      }
+    })
+  }, [client, queryClient, projectAddress])
+
+  useEffect(() => {
+    return client.watchProject(new PublicKey(projectAddress), (updated) => {
+      const { user, projectQueryKey, donationsQueryKey, activityQueryKey, setProjectQueryData } = latest.current
+      const current = queryClient.getQueryData<ProjectData | null>(projectQueryKey)
+      if (!current) return
+      if (updated && !hasProjectChanged(current, updated)) return
+
+      announceProjectChange(current, updated, user)
+      setProjectQueryData(updated)
+      queryClient.invalidateQueries({ queryKey: activityQueryKey })
+      if (!updated || updated.donatorCount !== current.donatorCount || updated.balance !== current.balance) {
+        queryClient.invalidateQueries({ queryKey: donationsQueryKey })
+      }
+    })
+  }, [client, queryClient, projectAddress])
+}
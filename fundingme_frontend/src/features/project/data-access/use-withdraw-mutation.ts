@@ -0,0 +1,31 @@
+import { useMutation } from '@tanstack/react-query'
+import { ProjectData } from '@/lib/anchor/client'
+import { toastError, toastTx } from '@/components/toast-tx'
+import { assertWalletConnected, useFundingClient } from './use-funding-client'
+import { useInvalidateProjectQuery } from './use-invalidate-project-query'
+import { useSetProjectQueryData } from './use-set-project-query-data'
+
+// Owner only: transfers the funds of a successful project to the owner and closes the project account
+export function useWithdrawMutation({ project }: { project: ProjectData }) {
+  const { client, user } = useFundingClient()
+  const setProjectQueryData = useSetProjectQueryData({ project })
+  const invalidateProjectQuery = useInvalidateProjectQuery({ project })
+
+  return useMutation({
+    mutationFn: async () => {
+      assertWalletConnected(user)
+      return project.mint
+        ? client.withdrawToken(user, project.owner, project.projectId)
+        : client.withdraw(user, project.owner, project.projectId)
+    },
+    onSuccess: async (signature) => {
+      toastTx(signature, 'Funds withdrawn successfully!')
+      setProjectQueryData(null)
+      await invalidateProjectQuery()
+    },
+    onError: (error) => {
+      console.error('Error withdrawing:', error)
+      toastError(error, 'Error withdrawing funds')
+    },
+  })
+}
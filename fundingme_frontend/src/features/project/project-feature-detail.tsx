@@ -0,0 +1,31 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useParams, useSearchParams } from 'next/navigation'
+import { PublicKey } from '@solana/web3.js'
+import ProjectFeature from './project-feature'
+
+export default function ProjectFeatureDetail() {
+  const params = useParams()
+  const searchParams = useSearchParams()
+  const owner = useMemo(() => {
+    if (!params.owner || typeof params.owner !== 'string') {
+      return
+    }
+    try {
+      return new PublicKey(params.owner)
+    } catch {
+      return
+    }
+  }, [params])
+  // Optional ?id= selecting one of the owner's projects, the most recent one otherwise
+  const id = searchParams.get('id')
+  const projectId = id !== null && /^\d+$/.test(id) ? Number(id) : undefined
+
+  if (!owner) {
+    return <div>Error loading project: invalid owner address</div>
+  }
+
+  // Remount for another owner or project so the selection starts over
+  return <ProjectFeature key={`${owner.toBase58()}-${projectId}`} owner={owner} projectId={projectId} />
+}
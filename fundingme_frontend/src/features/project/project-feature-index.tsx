@@ -0,0 +1,20 @@
+import { ReactNode } from 'react'
+import { useSolana } from '@/components/solana/use-solana'
+import { WalletDropdown } from '@/components/wallet-dropdown'
+import { getProjectPath } from './project-utils'
+
+export default function ProjectFeatureIndex({ redirect }: { redirect: (path: string) => ReactNode }) {
+  const { anchorWallet } = useSolana()
+
+  if (anchorWallet) {
+    return redirect(getProjectPath(anchorWallet.publicKey))
+  }
+
+  return (
+    <div className="hero py-[64px]">
+      <div className="hero-content text-center">
+        <WalletDropdown />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { PublicKey } from '@solana/web3.js'
+import { useSolana } from '@/components/solana/use-solana'
+import { useFundingClient } from './data-access/use-funding-client'
+import { useOwnerProjectsQuery } from './data-access/use-owner-projects-query'
+import { useProjectQuery } from './data-access/use-project-query'
+import { getProjectPath } from './project-utils'
+import { ProjectUiCreate } from './ui/project-ui-create'
+import { ProjectUiDetails } from './ui/project-ui-details'
+import { ProjectUiSearch } from './ui/project-ui-search'
+import { ProjectUiSwitcher } from './ui/project-ui-switcher'
+
+// Without an owner this is the home page showing the projects of the connected wallet,
+// with one it is the /project/[owner] page showing the projects of that address
+export default function ProjectFeature({ owner, projectId }: { owner?: PublicKey; projectId?: number } = {}) {
+  const router = useRouter()
+  const { account } = useSolana()
+  const { user } = useFundingClient()
+  const viewedOwner = owner ?? user ?? undefined
+  const projectsQuery = useOwnerProjectsQuery({ owner: viewedOwner })
+  // Project picked in the switcher, null while creating a new one, the page's (or most recent) project by default
+  const [selectedId, setSelectedId] = useState<number | null | undefined>(projectId)
+  // Enter and show amounts in lamports (base units for token projects) instead of SOL or whole tokens
+  const [showBaseUnits, setShowBaseUnits] = useState(false)
+
+  const projects = projectsQuery.data ?? []
+  const selected =
+    selectedId === null
+      ? null
+      : selectedId === undefined
+        ? (projects[projects.length - 1] ?? null)
+        : (projects.find((p) => p.projectId === selectedId) ?? null)
+  // A ?id= (or a picked project) the owner does not have, e.g. a mistyped link
+  const notFound = selectedId != null && !selected && projectsQuery.isSuccess
+  const projectQuery = useProjectQuery({ owner: viewedOwner, projectId: selected?.projectId })
+  const project = selected ? (projectQuery.data ?? selected) : null
+  const viewingOwnProjects = !!user && !!viewedOwner && viewedOwner.equals(user)
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
+      <div className="max-w-4xl mx-auto px-4 space-y-6">
+        <div className="text-center">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-gray-100 mb-2">FundingMe dApp</h1>
+          <p className="text-lg text-gray-600 dark:text-gray-400">Decentralized crowdfunding platform on Solana</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+            {account
+              ? `Connected: ${account.address.slice(0, 8)}...${account.address.slice(-8)}`
+              : 'Browsing read-only, connect your wallet to donate or manage projects'}
+          </p>
+          <label className="inline-flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 mt-2">
+            <input type="checkbox" checked={showBaseUnits} onChange={(e) => setShowBaseUnits(e.target.checked)} />
+            Show amounts in lamports (base units for token projects)
+          </label>
+        </div>
+
+        <ProjectUiSearch
+          disabled={projectsQuery.isFetching}
+          onMyProjects={() => (owner ? user && router.push(getProjectPath(user)) : projectsQuery.refetch())}
+        />
+
+        {projectsQuery.isError && (
+          <p className="text-center text-red-600 dark:text-red-400">
+            Error loading projects. Make sure you are connected to the correct network.
+          </p>
+        )}
+
+        {projects.length > 0 && (
+          <ProjectUiSwitcher
+            projects={projects}
+            selected={project}
+            ownProjects={viewingOwnProjects}
+            onSelect={(p) => setSelectedId(p.projectId)}
+            onNewProject={() => setSelectedId(null)}
+          />
+        )}
+
+        {!viewedOwner && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center">
+            <p className="text-gray-600 dark:text-gray-400 mb-4">Please connect your wallet to see your projects</p>
+            <p className="text-sm text-gray-500">
+              Use the wallet button in the header to connect, or search for the projects of any address
+            </p>
+          </div>
+        )}
+
+        {notFound && (
+          <p className="text-center text-gray-600 dark:text-gray-400">
+            Project #{selectedId} not found for this address
+          </p>
+        )}
+
+        {!project && !notFound && viewingOwnProjects && (
+          <ProjectUiCreate showBaseUnits={showBaseUnits} onCreated={(projectId) => setSelectedId(projectId)} />
+        )}
+
+        {!project && !notFound && !viewingOwnProjects && projectsQuery.isSuccess && (
+          <p className="text-center text-gray-600 dark:text-gray-400">No projects found for this address</p>
+        )}
+
+        {project && (
+          <ProjectUiDetails key={project.address.toBase58()} project={project} showBaseUnits={showBaseUnits} />
+        )}
+      </div>
+    </div>
+  )
+}
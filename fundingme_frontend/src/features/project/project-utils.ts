@@ -0,0 +1,53 @@
+import { PublicKey } from '@solana/web3.js'
+import { MintData, ProjectData } from '@/lib/anchor/client'
+import { formatAmount, SOL_DECIMALS } from '@/lib/amount'
+
+// Link to a project page, shareable and bookmarkable
+export function getProjectPath(owner: PublicKey, projectId?: number) {
+  return `/project/${owner.toBase58()}${projectId !== undefined ? `?id=${projectId}` : ''}`
+}
+
+// Remaining time until a deadline as "2d 04h 13m 09s"
+export function formatTimeLeft(deadline: Date, now: Date) {
+  const total = Math.max(0, Math.floor((deadline.getTime() - now.getTime()) / 1000))
+  const days = Math.floor(total / 86400)
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  const time = `${pad(Math.floor((total % 86400) / 3600))}h ${pad(Math.floor((total % 3600) / 60))}m ${pad(total % 60)}s`
+  return days > 0 ? `${days}d ${time}` : time
+}
+
+// Amounts of a token project can only be read once its mint is loaded: until then `loading` is true, there are no
+// decimals to parse typed amounts with and `format` shows a placeholder
+export type ProjectUnits = {
+  currency: string
+  format: (amount: bigint, digits: number) => string
+} & ({ loading: true } | { loading: false; decimals: number })
+
+// How amounts of a project are entered and shown: SOL or whole tokens, or lamports / base units with `showBaseUnits`
+export function getProjectUnits(
+  project: ProjectData,
+  mint: MintData | undefined,
+  showBaseUnits: boolean,
+): ProjectUnits {
+  const currency = showBaseUnits
+    ? project.mint
+      ? 'base units'
+      : 'lamports'
+    : project.mint
+      ? `tokens (${project.mint.toString().slice(0, 4)}...)`
+      : 'SOL'
+
+  if (showBaseUnits) {
+    return { loading: false, decimals: 0, currency, format: (amount) => amount.toString() }
+  }
+  const projectDecimals = project.mint ? mint?.decimals : SOL_DECIMALS
+  if (projectDecimals === undefined) {
+    return { loading: true, currency, format: () => '...' }
+  }
+  return {
+    loading: false,
+    decimals: projectDecimals,
+    currency,
+    format: (amount, digits) => formatAmount(amount, projectDecimals, digits),
+  }
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react'
+import { ProjectData, RefundProgress } from '@/lib/anchor/client'
+import { useClaimRefundMutation } from '../data-access/use-claim-refund-mutation'
+import { useCloseFailedProjectMutation } from '../data-access/use-close-failed-project-mutation'
+import { useCloseProjectMutation } from '../data-access/use-close-project-mutation'
+import { useFinalizeProjectMutation } from '../data-access/use-finalize-project-mutation'
+import { usePauseProjectMutation } from '../data-access/use-pause-project-mutation'
+import { useRefundDonatorsMutation } from '../data-access/use-refund-donators-mutation'
+import { useResumeProjectMutation } from '../data-access/use-resume-project-mutation'
+import { useWithdrawMutation } from '../data-access/use-withdraw-mutation'
+
+export function ProjectUiFinalize({ project }: { project: ProjectData }) {
+  const mutation = useFinalizeProjectMutation({ project })
+
+  return (
+    <div className="border-t pt-4">
+      <h4 className="font-medium text-gray-700 dark:text-gray-300 mb-3">Deadline Reached:</h4>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+        Anyone can finalize this project. It becomes {project.balance >= project.financialTarget ? 'Success' : 'Failed'}{' '}
+        based on the amount raised.
+      </p>
+      <button
+        onClick={() => mutation.mutate()}
+        disabled={mutation.isPending}
+        className="w-full bg-indigo-600 text-white py-3 rounded-lg disabled:opacity-50 hover:bg-indigo-700"
+      >
+        {mutation.isPending ? 'Finalizing...' : 'Finalize Project'}
+      </button>
+    </div>
+  )
+}
+
+export function ProjectUiOwnerActions({ project, deadlinePassed }: { project: ProjectData; deadlinePassed: boolean }) {
+  const pauseMutation = usePauseProjectMutation({ project })
+  const resumeMutation = useResumeProjectMutation({ project })
+  const closeMutation = useCloseProjectMutation({ project })
+  const withdrawMutation = useWithdrawMutation({ project })
+  const closeFailedMutation = useCloseFailedProjectMutation({ project })
+  const [refundProgress, setRefundProgress] = useState<RefundProgress | null>(null)
+  const refundMutation = useRefundDonatorsMutation({ project, onProgress: setRefundProgress })
+
+  const paused = 'paused' in project.status
+  const open = 'active' in project.status || 'targetReached' in project.status || paused
+  const pauseToggle = paused ? resumeMutation : pauseMutation
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <h4 className="font-medium text-gray-700 dark:text-gray-300">Owner Actions:</h4>
+
+      {open && !deadlinePassed && (
+        <button
+          onClick={() => pauseToggle.mutate()}
+          disabled={pauseMutation.isPending || resumeMutation.isPending}
+          className="w-full bg-gray-600 text-white py-3 rounded-lg disabled:opacity-50 hover:bg-gray-700"
+        >
+          {pauseMutation.isPending || resumeMutation.isPending
+            ? 'Processing...'
+            : paused
+              ? 'Resume Project'
+              : 'Pause Project'}
+        </button>
+      )}
+
+      {open && (
+        <button
+          onClick={() => closeMutation.mutate()}
+          disabled={closeMutation.isPending}
+          className="w-full bg-yellow-600 text-white py-3 rounded-lg disabled:opacity-50 hover:bg-yellow-700"
+        >
+          {closeMutation.isPending ? 'Processing...' : 'Close Project'}
+        </button>
+      )}
+
+      {'success' in project.status && (
+        <button
+          onClick={() => withdrawMutation.mutate()}
+          disabled={withdrawMutation.isPending}
+          className="w-full bg-purple-600 text-white py-3 rounded-lg disabled:opacity-50 hover:bg-purple-700"
+        >
+          {withdrawMutation.isPending ? 'Withdrawing...' : 'Withdraw All Funds'}
+        </button>
+      )}
+
+      {'failed' in project.status && project.donatorCount > 0 && (
+        <div className="space-y-2">
+          <button
+            onClick={() => {
+              setRefundProgress(null)
+              refundMutation.mutate()
+            }}
+            disabled={refundMutation.isPending}
+            className="w-full bg-red-600 text-white py-3 rounded-lg disabled:opacity-50 hover:bg-red-700"
+          >
+            {refundMutation.isPending
+              ? 'Refunding...'
+              : `Refund ${project.donatorCount} Donator${project.donatorCount > 1 ? 's' : ''}`}
+          </button>
+          {refundMutation.isPending && refundProgress && (
+            <div>
+              <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+                Refunded {refundProgress.refunded} of {refundProgress.total} donators
+              </p>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="h-2 rounded-full bg-red-600 transition-all duration-300"
+                  style={{ width: `${(refundProgress.refunded / refundProgress.total) * 100}%` }}
+                ></div>
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Sends the donations back in batches, one transaction to approve per batch, so the project can be closed
+            without waiting for every donator to claim.
+          </p>
+        </div>
+      )}
+
+      {'failed' in project.status && project.donatorCount === 0 && (
+        <button
+          onClick={() => closeFailedMutation.mutate()}
+          disabled={closeFailedMutation.isPending}
+          className="w-full bg-red-600 text-white py-3 rounded-lg disabled:opacity-50 hover:bg-red-700"
+        >
+          {closeFailedMutation.isPending ? 'Closing...' : 'Close Failed Project (Delete Account)'}
+        </button>
+      )}
+    </div>
+  )
+}
+
+export function ProjectUiRefund({ project }: { project: ProjectData }) {
+  const mutation = useClaimRefundMutation({ project })
+
+  return (
+    <div className="border-t pt-4">
+      <h4 className="font-medium text-gray-700 dark:text-gray-300 mb-3">Refund Available:</h4>
+      <button
+        onClick={() => mutation.mutate()}
+        disabled={mutation.isPending}
+        className="w-full bg-red-600 text-white py-3 rounded-lg disabled:opacity-50 hover:bg-red-700"
+      >
+        {mutation.isPending ? 'Claiming...' : 'Claim Your Refund'}
+      </button>
+    </div>
+  )
+}
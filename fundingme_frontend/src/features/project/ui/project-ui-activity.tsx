@@ -0,0 +1,94 @@
+import { PublicKey } from '@solana/web3.js'
+import { ProjectData, STATUS_TEXT } from '@/lib/anchor/client'
+import { ProjectActivity } from '@/lib/anchor/activity'
+import { ProjectInstructionName } from '@/lib/anchor/instructions'
+import { AppExplorerLink } from '@/components/app-explorer-link'
+import { useProjectActivityQuery } from '../data-access/use-project-activity-query'
+import { ProjectUnits } from '../project-utils'
+
+type Describe = (who: string, entry: ProjectActivity, units: ProjectUnits) => string
+
+const amount = (entry: ProjectActivity, units: ProjectUnits) =>
+  entry.amount === null ? 'an unknown amount' : `${units.format(entry.amount, 4)} ${units.currency}`
+const status = (entry: ProjectActivity) => (entry.status ? ` (${STATUS_TEXT[entry.status]})` : '')
+
+// Keyed by the generated instruction names so a new instruction in Rust fails to compile until it is described here
+const DESCRIPTIONS: Record<ProjectInstructionName, Describe> = {
+  createProject: (who, entry, units) => `${who} created the project with a target of ${amount(entry, units)}`,
+  createTokenProject: (who, entry, units) => `${who} created the project with a target of ${amount(entry, units)}`,
+  donate: (who, entry, units) => `${who} donated ${amount(entry, units)}${status(entry)}`,
+  donateToken: (who, entry, units) => `${who} donated ${amount(entry, units)}${status(entry)}`,
+  pauseProject: (who) => `${who} paused the project`,
+  resumeProject: (who, entry) => `${who} resumed the project${status(entry)}`,
+  closeProject: (who, entry) => `${who} closed the project${status(entry)}`,
+  finalizeProject: (who, entry) => `${who} finalized the project${status(entry)}`,
+  claimRefund: (who, entry, units) => `${who} claimed a refund of ${amount(entry, units)}`,
+  claimTokenRefund: (who, entry, units) => `${who} claimed a refund of ${amount(entry, units)}`,
+  batchRefund: (who, entry, units) => `${who} refunded ${amount(entry, units)} to donators`,
+  batchTokenRefund: (who, entry, units) => `${who} refunded ${amount(entry, units)} to donators`,
+  closeReceipts: (who) => `${who} returned the rent of donation receipts`,
+  withdraw: (who) => `${who} withdrew the funds`,
+  withdrawToken: (who) => `${who} withdrew the funds`,
+  closeFailedProject: (who) => `${who} closed the failed project`,
+  closeFailedTokenProject: (who) => `${who} closed the failed project`,
+  getDonatorCount: (who) => `${who} read the donator count`,
+}
+
+export function ProjectUiActivity({
+  project,
+  user,
+  units,
+}: {
+  project: ProjectData
+  user: PublicKey | null
+  units: ProjectUnits
+}) {
+  const query = useProjectActivityQuery({ project: project.address })
+  const activity = query.data?.pages.flatMap((page) => page.activity) ?? []
+
+  const getWho = (address: PublicKey) => {
+    if (user && address.equals(user)) return 'You'
+    if (address.equals(project.owner)) return 'The owner'
+    return `${address.toString().slice(0, 8)}...${address.toString().slice(-4)}`
+  }
+
+  return (
+    <div className="mt-6">
+      <h4 className="font-medium mb-3 text-gray-900 dark:text-gray-100">Activity:</h4>
+      {query.isError && <p className="text-sm text-red-600 dark:text-red-400">Error loading the project activity.</p>}
+      {activity.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {query.isLoading ? 'Loading activity...' : 'No activity yet.'}
+        </p>
+      ) : (
+        <ol className="space-y-2">
+          {activity.map((entry) => (
+            <li
+              key={`${entry.signature}-${entry.instruction}`}
+              className="flex justify-between items-center gap-3 text-sm bg-gray-50 dark:bg-gray-700 p-3 rounded"
+            >
+              <div>
+                <p className="text-gray-900 dark:text-gray-100">
+                  {DESCRIPTIONS[entry.instruction](getWho(entry.user), entry, units)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {entry.blockTime ? entry.blockTime.toLocaleString() : 'Pending'}
+                </p>
+              </div>
+              <AppExplorerLink transaction={entry.signature} label="View Transaction" />
+            </li>
+          ))}
+        </ol>
+      )}
+      {query.hasNextPage && (
+        <button
+          onClick={() => query.fetchNextPage()}
+          disabled={query.isFetchingNextPage}
+          className="w-full mt-3 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 py-2 rounded-lg disabled:opacity-50 hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          {query.isFetchingNextPage ? 'Loading...' : 'Load older activity'}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useState } from 'react'
+import { PublicKey } from '@solana/web3.js'
+import { MAX_NAME_LEN } from '@/lib/anchor/types'
+import { formatAmount, parseAmount, SOL_DECIMALS, validateAmount } from '@/lib/amount'
+import { useCreateProjectMutation } from '../data-access/use-create-project-mutation'
+import { useCreateProjectRentQuery } from '../data-access/use-create-project-rent-query'
+import { useMintQuery } from '../data-access/use-mint-query'
+
+export function ProjectUiCreate({
+  showBaseUnits,
+  onCreated,
+}: {
+  showBaseUnits: boolean
+  onCreated: (projectId: number) => void
+}) {
+  const [projectName, setProjectName] = useState('')
+  const [financialTarget, setFinancialTarget] = useState('')
+  const [deadline, setDeadline] = useState('')
+  const [mintAddress, setMintAddress] = useState('')
+  // The rent is estimated from the name, wait for a pause in typing before asking for it
+  const [rentName, setRentName] = useState('')
+  const mutation = useCreateProjectMutation()
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setRentName(projectName), 300)
+    return () => clearTimeout(timeout)
+  }, [projectName])
+  const rentQuery = useCreateProjectRentQuery({ name: rentName })
+
+  // A typed target would change its meaning with the unit, so start over
+  useEffect(() => {
+    setFinancialTarget('')
+  }, [showBaseUnits])
+
+  // Look up the mint as it is typed, its decimals are needed to read the target in tokens
+  const newMintAddress = mintAddress.trim()
+  const mint = useMemo(() => {
+    try {
+      return newMintAddress ? new PublicKey(newMintAddress) : undefined
+    } catch {
+      return undefined
+    }
+  }, [newMintAddress])
+  const mintQuery = useMintQuery({ mint })
+
+  const nameBytes = new TextEncoder().encode(projectName).length
+  const nameTooLong = nameBytes > MAX_NAME_LEN
+  const targetDecimals = showBaseUnits ? 0 : newMintAddress ? mintQuery.data?.decimals : SOL_DECIMALS
+  const targetUnit = showBaseUnits ? (newMintAddress ? 'base units' : 'lamports') : newMintAddress ? 'tokens' : 'SOL'
+  const targetError = financialTarget
+    ? targetDecimals === undefined
+      ? 'Enter the address of an existing token mint'
+      : validateAmount(financialTarget, targetDecimals)
+    : null
+
+  const createProject = () => {
+    if (!projectName || !financialTarget || targetDecimals === undefined || targetError) return
+
+    mutation.mutate(
+      {
+        name: projectName,
+        financialTarget: parseAmount(financialTarget, targetDecimals),
+        mint: mint ?? null,
+        deadline: deadline ? new Date(deadline) : null,
+      },
+      {
+        onSuccess: ({ projectId }) => {
+          setProjectName('')
+          setFinancialTarget('')
+          setDeadline('')
+          setMintAddress('')
+          onCreated(projectId)
+        },
+      },
+    )
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-gray-100">Create New Project</h3>
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">Project Name</label>
+          <input
+            type="text"
+            value={projectName}
+            onChange={(e) => setProjectName(e.target.value)}
+            className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+            placeholder="Enter project name"
+          />
+          <p
+            className={`text-xs mt-1 ${nameTooLong ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}
+          >
+            {nameBytes}/{MAX_NAME_LEN} bytes
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
+            Token Mint (optional)
+          </label>
+          <input
+            type="text"
+            value={mintAddress}
+            onChange={(e) => setMintAddress(e.target.value)}
+            className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+            placeholder="Leave empty to raise SOL, or enter an SPL Token / Token-2022 mint address (e.g. USDC)"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
+            Financial Target ({targetUnit})
+          </label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={financialTarget}
+            onChange={(e) => setFinancialTarget(e.target.value)}
+            className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+            placeholder={`Enter target amount in ${targetUnit}`}
+          />
+          {targetError && <p className="text-xs mt-1 text-red-600 dark:text-red-400">{targetError}</p>}
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">Deadline (optional)</label>
+          <input
+            type="datetime-local"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+            className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            After the deadline donations stop and anyone can finalize the project as Success or Failed.
+          </p>
+        </div>
+        {rentQuery.data !== undefined && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Rent deposit: {formatAmount(BigInt(rentQuery.data), SOL_DECIMALS)} SOL. The account is sized from the
+            project name and the deposit is returned to you when the project account is closed.
+          </p>
+        )}
+        <button
+          onClick={createProject}
+          disabled={mutation.isPending || !projectName || !financialTarget || !!targetError || nameTooLong}
+          className="w-full bg-blue-600 text-white py-3 rounded-lg disabled:opacity-50 hover:bg-blue-700"
+        >
+          {mutation.isPending ? 'Creating...' : 'Create Project'}
+        </button>
+      </div>
+    </div>
+  )
+}
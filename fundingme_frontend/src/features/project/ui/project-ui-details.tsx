@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react'
+import { canFinalize, getStatusVariant, isDeadlinePassed, ProjectData, STATUS_TEXT } from '@/lib/anchor/client'
+import { STATUS_COLOR } from '@/components/ProjectStatusBadge'
+import { useFundingClient } from '../data-access/use-funding-client'
+import { useMintQuery } from '../data-access/use-mint-query'
+import { useProjectDonationsQuery } from '../data-access/use-project-donations-query'
+import { useWatchProject } from '../data-access/use-watch-project'
+import { formatTimeLeft, getProjectUnits } from '../project-utils'
+import { ProjectUiFinalize, ProjectUiOwnerActions, ProjectUiRefund } from './project-ui-actions'
+import { ProjectUiActivity } from './project-ui-activity'
+import { ProjectUiDonate } from './project-ui-donate'
+import { ProjectUiDonators } from './project-ui-donators'
+import { ProjectUiInfo } from './project-ui-info'
+import { ProjectUiProgress } from './project-ui-progress'
+
+export function ProjectUiDetails({ project, showBaseUnits }: { project: ProjectData; showBaseUnits: boolean }) {
+  const { user } = useFundingClient()
+  const [now, setNow] = useState(() => new Date())
+  const donationsQuery = useProjectDonationsQuery({ project: project.address })
+  // Token projects keep amounts in base units of their mint, its decimals are needed to display them
+  const mintQuery = useMintQuery({ mint: project.mint ?? undefined })
+  useWatchProject({ project })
+
+  // Tick once per second while the project has a deadline to count down to
+  useEffect(() => {
+    if (!project.deadline) return
+    setNow(new Date())
+    const interval = setInterval(() => setNow(new Date()), 1000)
+    return () => clearInterval(interval)
+  }, [project.deadline])
+
+  const donations = donationsQuery.data ?? []
+  const units = getProjectUnits(project, mintQuery.data, showBaseUnits)
+  const variant = getStatusVariant(project.status)
+  const isOwner = !!user && project.owner.equals(user)
+  const isDonator = !!user && donations.some((d) => d.donator.equals(user))
+  const deadlinePassed = isDeadlinePassed(project, now)
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100">{project.name}</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Project #{project.projectId}</p>
+          <div className="flex items-center space-x-2 mt-1">
+            <span className="text-gray-600 dark:text-gray-400">Status:</span>
+            <span className={`px-2 py-1 rounded text-sm font-semibold ${STATUS_COLOR[variant]}`}>
+              {STATUS_TEXT[variant]}
+            </span>
+          </div>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Owner: {isOwner ? 'You' : `${project.owner.toString().slice(0, 8)}...`}
+          </p>
+          {project.deadline && (
+            <p className="text-gray-600 dark:text-gray-400 mt-1">
+              {deadlinePassed ? (
+                <>Deadline passed on {project.deadline.toLocaleString()}</>
+              ) : (
+                <>
+                  Ends in <span className="font-mono font-semibold">{formatTimeLeft(project.deadline, now)}</span>
+                </>
+              )}
+            </p>
+          )}
+        </div>
+        {isOwner && (
+          <span className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-medium">Your Project</span>
+        )}
+      </div>
+
+      <ProjectUiProgress project={project} units={units} />
+      <ProjectUiDonators project={project} donations={donations} user={user} units={units} />
+
+      <div className="space-y-4">
+        {'active' in project.status && !deadlinePassed && user && (
+          <ProjectUiDonate project={project} user={user} isDonator={isDonator} units={units} />
+        )}
+        {'active' in project.status && !deadlinePassed && !user && (
+          <p className="border-t pt-4 text-sm text-gray-600 dark:text-gray-400">
+            Connect your wallet to donate to this project.
+          </p>
+        )}
+        {canFinalize(project, now) && user && <ProjectUiFinalize project={project} />}
+        {isOwner && <ProjectUiOwnerActions project={project} deadlinePassed={deadlinePassed} />}
+        {'failed' in project.status && isDonator && <ProjectUiRefund project={project} />}
+      </div>
+
+      <ProjectUiInfo project={project} units={units} />
+      <ProjectUiActivity project={project} user={user} units={units} />
+    </div>
+  )
+}
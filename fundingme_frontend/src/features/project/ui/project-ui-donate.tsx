@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react'
+import { PublicKey } from '@solana/web3.js'
+import { ProjectData } from '@/lib/anchor/client'
+import { formatAmount, parseAmount, SOL_DECIMALS, validateAmount } from '@/lib/amount'
+import { useDonateMutation } from '../data-access/use-donate-mutation'
+import { useDonationReceiptRentQuery } from '../data-access/use-donation-receipt-rent-query'
+import { ProjectUnits } from '../project-utils'
+import { ProjectUiTokenAccountSelect } from './project-ui-token-account-select'
+
+export function ProjectUiDonate({
+  project,
+  user,
+  isDonator,
+  units,
+}: {
+  project: ProjectData
+  user: PublicKey
+  isDonator: boolean
+  units: ProjectUnits
+}) {
+  const [donationAmount, setDonationAmount] = useState('')
+  const [donatorTokenAccount, setDonatorTokenAccount] = useState('')
+  const mutation = useDonateMutation({ project })
+  const receiptRentQuery = useDonationReceiptRentQuery()
+
+  const decimals = units.loading ? undefined : units.decimals
+
+  // A typed amount would change its meaning with the unit, so start over
+  useEffect(() => {
+    setDonationAmount('')
+  }, [decimals])
+
+  const donationError = donationAmount && !units.loading ? validateAmount(donationAmount, units.decimals) : null
+
+  const donate = () => {
+    if (!donationAmount || units.loading || donationError) return
+
+    mutation.mutate(
+      {
+        amount: parseAmount(donationAmount, units.decimals),
+        donatorTokenAccount: donatorTokenAccount ? new PublicKey(donatorTokenAccount) : undefined,
+      },
+      { onSuccess: () => setDonationAmount('') },
+    )
+  }
+
+  return (
+    <div className="border-t pt-4">
+      <label className="block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300">
+        Make a Donation ({units.currency})
+      </label>
+      <div className="flex space-x-3">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={donationAmount}
+          onChange={(e) => setDonationAmount(e.target.value)}
+          disabled={units.loading}
+          className="flex-1 p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+          placeholder={units.loading ? 'Loading the project mint...' : `Amount in ${units.currency}`}
+        />
+        <button
+          onClick={donate}
+          disabled={
+            mutation.isPending ||
+            units.loading ||
+            !donationAmount ||
+            !!donationError ||
+            (!!project.mint && !donatorTokenAccount)
+          }
+          className="bg-green-600 text-white px-8 py-3 rounded-lg disabled:opacity-50 hover:bg-green-700"
+        >
+          {mutation.isPending ? 'Donating...' : 'Donate'}
+        </button>
+      </div>
+      {donationError && <p className="text-xs mt-1 text-red-600 dark:text-red-400">{donationError}</p>}
+      {project.mint && (
+        <ProjectUiTokenAccountSelect
+          owner={user}
+          mint={project.mint}
+          value={donatorTokenAccount}
+          onChange={setDonatorTokenAccount}
+        />
+      )}
+      {!isDonator && receiptRentQuery.data !== undefined && (
+        <p className="text-gray-500 dark:text-gray-400 text-xs mt-2">
+          Your first donation also pays {formatAmount(BigInt(receiptRentQuery.data), SOL_DECIMALS)} SOL rent for your
+          donation receipt. It is returned with a refund, or from My Donations once the project succeeded.
+        </p>
+      )}
+    </div>
+  )
+}
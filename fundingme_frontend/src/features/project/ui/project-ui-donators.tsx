@@ -0,0 +1,42 @@
+import { PublicKey } from '@solana/web3.js'
+import { DonationData, ProjectData } from '@/lib/anchor/client'
+import { ProjectUnits } from '../project-utils'
+
+export function ProjectUiDonators({
+  project,
+  donations,
+  user,
+  units,
+}: {
+  project: ProjectData
+  donations: DonationData[]
+  user: PublicKey | null
+  units: ProjectUnits
+}) {
+  if (donations.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-semibold mb-3">Donators ({project.donatorCount})</h3>
+      <div className="space-y-2 max-h-40 overflow-y-auto">
+        {donations.map((donation) => (
+          <div
+            key={donation.address.toString()}
+            className="flex justify-between items-center text-sm bg-gray-50 dark:bg-gray-700 p-3 rounded"
+          >
+            <span className="font-mono">
+              {user && donation.donator.equals(user)
+                ? 'You'
+                : `${donation.donator.toString().slice(0, 8)}...${donation.donator.toString().slice(-4)}`}
+            </span>
+            <span className="font-semibold">
+              {units.format(donation.amount, 2)} {units.currency}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
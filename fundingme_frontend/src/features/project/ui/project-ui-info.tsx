@@ -0,0 +1,44 @@
+import Link from 'next/link'
+import { ProjectData } from '@/lib/anchor/client'
+import { PROGRAM_ID } from '@/lib/anchor/setup'
+import { AppExplorerLink } from '@/components/app-explorer-link'
+import { useSolana } from '@/components/solana/use-solana'
+import { getProjectPath, ProjectUnits } from '../project-utils'
+
+export function ProjectUiInfo({ project, units }: { project: ProjectData; units: ProjectUnits }) {
+  const { cluster } = useSolana()
+  const projectPath = getProjectPath(project.owner, project.projectId)
+
+  return (
+    <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <h4 className="font-medium mb-2 text-gray-900 dark:text-gray-100">Project Information:</h4>
+      <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+        <p>• Program ID: {PROGRAM_ID.toString()}</p>
+        <p>
+          • Project Account:{' '}
+          <AppExplorerLink
+            address={project.address.toString()}
+            label={project.address.toString()}
+            className="font-mono inline-flex gap-1 break-all hover:underline"
+          />
+        </p>
+        <p>
+          • Share:{' '}
+          <Link href={projectPath} className="text-blue-600 dark:text-blue-400 hover:underline break-all">
+            {projectPath}
+          </Link>
+        </p>
+        <p>• Network: {cluster.label}</p>
+        <p>• Currency: {project.mint ? `Token ${project.mint.toString()}` : 'SOL'}</p>
+        <p>
+          • Total Raised: {units.format(project.balance, 4)} {units.currency}
+        </p>
+        <p>
+          • Target: {units.format(project.financialTarget, 4)} {units.currency}
+        </p>
+        <p>• Deadline: {project.deadline ? project.deadline.toLocaleString() : 'None'}</p>
+        <p>• Donators Count: {project.donatorCount}</p>
+      </div>
+    </div>
+  )
+}
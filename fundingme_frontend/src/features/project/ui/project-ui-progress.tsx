@@ -0,0 +1,55 @@
+import { ProjectData } from '@/lib/anchor/client'
+import { getPercent } from '@/lib/amount'
+import { ProjectUnits } from '../project-utils'
+
+export function ProjectUiProgress({ project, units }: { project: ProjectData; units: ProjectUnits }) {
+  const progress = getPercent(project.balance, project.financialTarget)
+
+  return (
+    <div className="mb-6">
+      <div className="flex justify-between mb-2">
+        <span className="text-sm font-medium">Progress: {progress.toFixed(1)}%</span>
+        <span className="text-sm">
+          {units.format(project.balance, 2)} / {units.format(project.financialTarget, 2)} {units.currency}
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-4">
+        <div
+          className={`h-4 rounded-full transition-all duration-300 ${progress >= 100 ? 'bg-green-600' : 'bg-blue-600'}`}
+          style={{ width: `${Math.min(progress, 100)}%` }}
+        ></div>
+      </div>
+      {progress >= 100 && (
+        <div className="mt-2 p-3 bg-green-100 dark:bg-green-900/30 border border-green-300 dark:border-green-600 rounded-lg">
+          <p className="text-green-800 dark:text-green-200 font-semibold text-sm">
+            🎉 Funding goal reached! The project owner can now close the project and withdraw funds.
+          </p>
+        </div>
+      )}
+      {'paused' in project.status && (
+        <div className="mt-2 p-3 bg-gray-100 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-600 rounded-lg">
+          <p className="text-gray-800 dark:text-gray-200 font-semibold text-sm">
+            ⏸️ Project paused. Donations are blocked until the owner resumes it.
+          </p>
+        </div>
+      )}
+      {'failed' in project.status && (
+        <div className="mt-2 p-3 bg-red-100 dark:bg-red-900/30 border border-red-300 dark:border-red-600 rounded-lg">
+          <p className="text-red-800 dark:text-red-200 font-semibold text-sm">
+            ⚠️ Project failed. All donators must be refunded before the project owner can close this project.
+          </p>
+          {project.donatorCount > 0 ? (
+            <p className="text-red-700 dark:text-red-300 text-xs mt-1">
+              Waiting for {project.donatorCount} donator{project.donatorCount > 1 ? 's' : ''} to claim refunds, or for
+              the owner to refund them.
+            </p>
+          ) : (
+            <p className="text-green-700 dark:text-green-300 text-xs mt-1">
+              ✅ All donators have withdrawn. Project can now be closed.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
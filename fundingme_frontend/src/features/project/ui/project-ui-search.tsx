@@ -0,0 +1,53 @@
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { PublicKey } from '@solana/web3.js'
+import { toast } from 'sonner'
+import { getProjectPath } from '../project-utils'
+
+// Opens the project page of any owner address
+export function ProjectUiSearch({ onMyProjects, disabled }: { onMyProjects: () => void; disabled: boolean }) {
+  const router = useRouter()
+  const [searchAddress, setSearchAddress] = useState('')
+
+  const searchProject = () => {
+    if (!searchAddress.trim()) {
+      toast.error('Please enter a valid address')
+      return
+    }
+
+    try {
+      router.push(getProjectPath(new PublicKey(searchAddress.trim())))
+    } catch {
+      toast.error('Invalid address format')
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-gray-100">Search Projects</h3>
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={searchAddress}
+          onChange={(e) => setSearchAddress(e.target.value)}
+          className="flex-1 p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+          placeholder="Enter project owner address to search..."
+        />
+        <button
+          onClick={searchProject}
+          disabled={disabled}
+          className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          Search
+        </button>
+        <button
+          onClick={onMyProjects}
+          disabled={disabled}
+          className="bg-gray-600 text-white px-6 py-3 rounded-lg hover:bg-gray-700 disabled:opacity-50"
+        >
+          My Projects
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import { ProjectData } from '@/lib/anchor/client'
+import { ProjectStatusBadge } from '@/components/ProjectStatusBadge'
+
+export function ProjectUiSwitcher({
+  projects,
+  selected,
+  ownProjects,
+  onSelect,
+  onNewProject,
+}: {
+  projects: ProjectData[]
+  selected: ProjectData | null
+  // The connected wallet's own projects, which also offer creating a new one
+  ownProjects: boolean
+  onSelect: (project: ProjectData) => void
+  onNewProject: () => void
+}) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          {ownProjects ? 'Your Projects' : `Projects by ${projects[0].owner.toString().slice(0, 8)}...`} (
+          {projects.length})
+        </h3>
+        {ownProjects && (
+          <button
+            onClick={onNewProject}
+            disabled={!selected}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            + New Project
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {projects.map((p) => (
+          <button
+            key={p.address.toString()}
+            onClick={() => onSelect(p)}
+            className={`px-4 py-2 rounded-lg border text-sm ${
+              selected?.address.equals(p.address)
+                ? 'border-blue-600 bg-blue-50 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200'
+                : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            #{p.projectId} {p.name}
+            <span className="ml-2">
+              <ProjectStatusBadge status={p.status} />
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
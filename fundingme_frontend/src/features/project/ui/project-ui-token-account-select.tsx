@@ -0,0 +1,52 @@
+import { useEffect, useMemo } from 'react'
+import type { Address } from 'gill'
+import { PublicKey } from '@solana/web3.js'
+import { useGetTokenAccountsQuery } from '@/features/account/data-access/use-get-token-accounts-query'
+
+// Token accounts of the donator holding the project mint, for Token and Token-2022 mints alike
+export function ProjectUiTokenAccountSelect({
+  owner,
+  mint,
+  value,
+  onChange,
+}: {
+  owner: PublicKey
+  mint: PublicKey
+  value: string
+  onChange: (tokenAccount: string) => void
+}) {
+  const query = useGetTokenAccountsQuery({ address: owner.toBase58() as Address })
+  const tokenAccounts = useMemo(
+    () => (query.data ?? []).filter(({ account }) => account.data.parsed.info.mint === mint.toBase58()),
+    [query.data, mint],
+  )
+
+  // Preselect the first matching account so the donor does not have to pick one when they only hold one
+  useEffect(() => {
+    if (!value && tokenAccounts.length > 0) onChange(tokenAccounts[0].pubkey.toString())
+  }, [value, tokenAccounts, onChange])
+
+  if (query.isLoading) {
+    return <p className="text-gray-500 dark:text-gray-400 text-xs mt-2">Loading your token accounts...</p>
+  }
+  if (tokenAccounts.length === 0) {
+    return (
+      <p className="text-red-700 dark:text-red-300 text-xs mt-2">
+        Your wallet holds no tokens of this project&apos;s mint ({mint.toString().slice(0, 8)}...).
+      </p>
+    )
+  }
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full mt-2 p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-gray-100"
+    >
+      {tokenAccounts.map(({ pubkey, account }) => (
+        <option key={pubkey.toString()} value={pubkey.toString()}>
+          {pubkey.toString().slice(0, 8)}... balance {account.data.parsed.info.tokenAmount.uiAmountString}
+        </option>
+      ))}
+    </select>
+  )
+}
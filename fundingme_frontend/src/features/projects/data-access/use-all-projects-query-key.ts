@@ -0,0 +1,7 @@
+import { useSolana } from '@/components/solana/use-solana'
+
+export function useAllProjectsQueryKey() {
+  const { cluster } = useSolana()
+
+  return ['all-projects', { cluster }]
+}
@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query'
+import { useFundingClient } from '@/features/project/data-access/use-funding-client'
+import { useAllProjectsQueryKey } from './use-all-projects-query-key'
+
+// Every project of every owner on the selected cluster, works without a connected wallet
+export function useAllProjectsQuery() {
+  const { client } = useFundingClient()
+
+  return useQuery({
+    queryKey: useAllProjectsQueryKey(),
+    queryFn: () => client.fetchAllProjects(),
+  })
+}
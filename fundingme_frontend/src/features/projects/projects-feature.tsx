@@ -0,0 +1,155 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { getStatusVariant, ProjectData, STATUS_TEXT } from '@/lib/anchor/client'
+import { getPercent } from '@/lib/amount'
+import { PROJECT_STATUS_VARIANTS, ProjectStatusVariant } from '@/lib/anchor/types'
+import { useAllProjectsQuery } from './data-access/use-all-projects-query'
+import { ProjectsUiCard } from './ui/projects-ui-card'
+
+type SortKey = 'raised' | 'percent' | 'donators'
+
+const SORT_LABELS: Record<SortKey, string> = {
+  raised: 'Raised amount',
+  percent: 'Percent funded',
+  donators: 'Donator count',
+}
+
+// 'sol' or the address of a mint
+type CurrencyFilter = 'all' | 'sol' | string
+
+function getCurrencyKey(project: ProjectData) {
+  return project.mint?.toBase58() ?? 'sol'
+}
+
+// Base units of different mints do not compare, so raised amounts are only compared within one currency: SOL projects
+// come first, then the projects of each mint
+function compareRaised(a: ProjectData, b: ProjectData) {
+  if (getCurrencyKey(a) !== getCurrencyKey(b)) {
+    return a.mint ? (b.mint ? getCurrencyKey(a).localeCompare(getCurrencyKey(b)) : 1) : -1
+  }
+  return b.balance > a.balance ? 1 : b.balance < a.balance ? -1 : 0
+}
+
+const COMPARE: Record<SortKey, (a: ProjectData, b: ProjectData) => number> = {
+  raised: compareRaised,
+  percent: (a, b) => getPercent(b.balance, b.financialTarget) - getPercent(a.balance, a.financialTarget),
+  donators: (a, b) => b.donatorCount - a.donatorCount,
+}
+
+export default function ProjectsFeature() {
+  const query = useAllProjectsQuery()
+  const [statusFilter, setStatusFilter] = useState<ProjectStatusVariant | 'all'>('all')
+  const [currencyFilter, setCurrencyFilter] = useState<CurrencyFilter>('all')
+  const [sortKey, setSortKey] = useState<SortKey>('raised')
+  const [search, setSearch] = useState('')
+
+  const projects = useMemo(() => query.data ?? [], [query.data])
+  const mints = useMemo(
+    () => [...new Set(projects.flatMap((project) => (project.mint ? [project.mint.toBase58()] : [])))].sort(),
+    [projects],
+  )
+
+  const visibleProjects = useMemo(() => {
+    const text = search.trim().toLowerCase()
+    return projects
+      .filter((p) => statusFilter === 'all' || getStatusVariant(p.status) === statusFilter)
+      .filter((p) => currencyFilter === 'all' || getCurrencyKey(p) === currencyFilter)
+      .filter((p) => !text || p.name.toLowerCase().includes(text))
+      .sort(COMPARE[sortKey])
+  }, [projects, statusFilter, currencyFilter, sortKey, search])
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
+      <div className="max-w-6xl mx-auto px-4 space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Explore Projects</h1>
+            <p className="text-gray-600 dark:text-gray-400">Every campaign on-chain, refreshed from the program</p>
+          </div>
+          <button
+            onClick={() => query.refetch()}
+            disabled={query.isFetching}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg disabled:opacity-50 hover:bg-blue-700"
+          >
+            {query.isFetching ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 flex flex-col md:flex-row gap-3">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="flex-1 p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+            placeholder="Search by project name"
+          />
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as ProjectStatusVariant | 'all')}
+            className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            <option value="all">All statuses</option>
+            {PROJECT_STATUS_VARIANTS.map((variant) => (
+              <option key={variant} value={variant}>
+                {STATUS_TEXT[variant]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={currencyFilter}
+            onChange={(e) => setCurrencyFilter(e.target.value)}
+            className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            <option value="all">All currencies</option>
+            <option value="sol">SOL</option>
+            {mints.map((mint) => (
+              <option key={mint} value={mint}>
+                Tokens ({mint.slice(0, 4)}...)
+              </option>
+            ))}
+          </select>
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as SortKey)}
+            className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+              <option key={key} value={key}>
+                Sort by: {SORT_LABELS[key]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {query.isError && (
+          <p className="text-red-600 dark:text-red-400">
+            Error loading projects. Make sure you are connected to the correct network.
+          </p>
+        )}
+
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Showing {visibleProjects.length} of {projects.length} projects
+          {sortKey === 'raised' &&
+            currencyFilter === 'all' &&
+            mints.length > 0 &&
+            ', raised amounts sorted per currency'}
+        </p>
+
+        {/* Project Cards */}
+        {visibleProjects.length === 0 ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center text-gray-600 dark:text-gray-400">
+            {query.isLoading ? 'Loading projects...' : 'No projects match the current filters.'}
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {visibleProjects.map((project) => (
+              <ProjectsUiCard key={project.address.toString()} project={project} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
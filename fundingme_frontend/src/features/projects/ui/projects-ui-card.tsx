@@ -0,0 +1,47 @@
+import Link from 'next/link'
+import { getPercent } from '@/lib/amount'
+import { ProjectData } from '@/lib/anchor/client'
+import { ProjectStatusBadge } from '@/components/ProjectStatusBadge'
+import { useMintQuery } from '@/features/project/data-access/use-mint-query'
+import { getProjectPath, getProjectUnits } from '@/features/project/project-utils'
+
+export function ProjectsUiCard({ project }: { project: ProjectData }) {
+  const mintQuery = useMintQuery({ mint: project.mint ?? undefined })
+  const units = getProjectUnits(project, mintQuery.data, false)
+  const progress = getPercent(project.balance, project.financialTarget)
+
+  return (
+    <Link
+      href={getProjectPath(project.owner, project.projectId)}
+      className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-5 flex flex-col gap-3 hover:ring-2 hover:ring-blue-500"
+    >
+      <div className="flex justify-between items-start gap-2">
+        <h3 className="font-semibold text-gray-900 dark:text-gray-100 break-all">{project.name}</h3>
+        <ProjectStatusBadge status={project.status} />
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+        Owner: {project.owner.toString().slice(0, 8)}...{project.owner.toString().slice(-4)} · #{project.projectId}
+      </p>
+      <div>
+        <div className="flex justify-between mb-1 text-sm">
+          <span>{progress.toFixed(1)}%</span>
+          <span>
+            {units.format(project.balance, 2)} / {units.format(project.financialTarget, 2)} {units.currency}
+          </span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2">
+          <div
+            className={`h-2 rounded-full ${progress >= 100 ? 'bg-green-600' : 'bg-blue-600'}`}
+            style={{ width: `${Math.min(progress, 100)}%` }}
+          ></div>
+        </div>
+      </div>
+      <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+        <span>
+          {project.donatorCount} donator{project.donatorCount === 1 ? '' : 's'}
+        </span>
+        <span>{project.deadline ? `Ends ${project.deadline.toLocaleDateString()}` : 'No deadline'}</span>
+      </div>
+    </Link>
+  )
+}
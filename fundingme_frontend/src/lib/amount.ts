@@ -0,0 +1,58 @@
+// Amounts are bigints in base units of their currency (lamports for SOL, base units of the mint for tokens).
+// They are only converted from and to decimal strings at the edges, so a float never touches a balance.
+
+export const SOL_DECIMALS = 9
+
+// Largest amount a u64 field of the program can hold
+export const MAX_AMOUNT = (1n << 64n) - 1n
+
+const AMOUNT_PATTERN = /^(\d*)(?:\.(\d*))?$/
+
+function splitAmount(input: string): { whole: string; fraction: string } | null {
+  const match = AMOUNT_PATTERN.exec(input.trim())
+  if (!match || (!match[1] && !match[2])) return null
+  return { whole: match[1] || '0', fraction: match[2] ?? '' }
+}
+
+// Why an input is not a valid amount with `decimals` decimal places, null when it is one
+export function validateAmount(input: string, decimals: number): string | null {
+  const value = input.trim()
+  if (!value) return 'Enter an amount'
+  if (value.startsWith('-')) return 'Amount cannot be negative'
+
+  const parts = splitAmount(value)
+  if (!parts) return 'Enter a valid number'
+  if (parts.fraction.length > decimals) {
+    return decimals === 0 ? 'Amount must be a whole number' : `Use at most ${decimals} decimal places`
+  }
+
+  const amount = BigInt(parts.whole + parts.fraction.padEnd(decimals, '0'))
+  if (amount === 0n) return 'Amount must be greater than zero'
+  if (amount > MAX_AMOUNT) return 'Amount is too large'
+  return null
+}
+
+// "1.5" with 9 decimals is 1_500_000_000, throws with the validateAmount message for invalid input
+export function parseAmount(input: string, decimals: number): bigint {
+  const error = validateAmount(input, decimals)
+  if (error) throw new Error(error)
+
+  const { whole, fraction } = splitAmount(input)!
+  return BigInt(whole + fraction.padEnd(decimals, '0'))
+}
+
+// Decimal string of an amount without trailing zeros, cut (not rounded) to `maxFractionDigits` for display
+export function formatAmount(amount: bigint, decimals: number, maxFractionDigits: number = decimals): string {
+  const negative = amount < 0n
+  const absolute = negative ? -amount : amount
+  const base = 10n ** BigInt(decimals)
+  const whole = (absolute / base).toString()
+  const fraction = (absolute % base).toString().padStart(decimals, '0').slice(0, maxFractionDigits).replace(/0+$/, '')
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`
+}
+
+// Share of `part` in `total` in percent with two decimals, 100 for an empty total
+export function getPercent(part: bigint, total: bigint): number {
+  if (total <= 0n) return 100
+  return Number((part * 10000n) / total) / 100
+}
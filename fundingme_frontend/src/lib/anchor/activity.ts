@@ -0,0 +1,131 @@
+import { Program } from '@coral-xyz/anchor'
+import { PublicKey, VersionedTransactionResponse } from '@solana/web3.js'
+import { parseProjectEvents, ProjectEvent } from './events'
+import { decodeProgramInstructions, ProjectInstructionName } from './instructions'
+import { FundingmeDapp, PROJECT_STATUS_VARIANTS, ProjectStatusVariant } from './types'
+
+// History of a project read back from its transactions: the FundingMe instruction of every transaction touching the
+// project account, completed with what its events tell (refunded amounts, the status a project was closed or
+// finalized to). Transactions sent before the program emitted events fall back to the `msg!` logs. Transactions stay
+// on-chain, so this also works for withdrawn projects.
+
+export type ProjectActivity = {
+  signature: string
+  blockTime: Date | null
+  instruction: ProjectInstructionName
+  // Signer of the instruction: the owner, a donator, or whoever finalized the project
+  user: PublicKey
+  // Base units of the project currency: the donated or refunded amount, or the financial target of a new project
+  amount: bigint | null
+  // Status the project moved to, for the instructions that change it (a donation can reach the target)
+  status: ProjectStatusVariant | null
+}
+
+export type ProjectActivityPage = {
+  activity: ProjectActivity[]
+  // Signature to pass as `before` for older activity, null once the creation of the project is reached
+  cursor: string | null
+}
+
+const REFUND_LOG = /^Program log: Refunded (\d+) (?:lamports|tokens) to /
+const STATUS_LOG = /^Program log: (?:Project resumed\. )?Status: (\w+)$/
+const CLOSED_AS_FAILED_LOG = 'Program log: Project failed. Donators can now claim individual refunds.'
+
+// Rust prints the status with {:?}, e.g. "TargetReached"
+function parseStatusLog(logs: string[]): ProjectStatusVariant | null {
+  for (const log of logs) {
+    const match = STATUS_LOG.exec(log)
+    if (!match) continue
+    const variant = match[1].charAt(0).toLowerCase() + match[1].slice(1)
+    return PROJECT_STATUS_VARIANTS.find((v) => v === variant) ?? null
+  }
+  return null
+}
+
+function parseRefundLog(logs: string[]): bigint | null {
+  for (const log of logs) {
+    const match = REFUND_LOG.exec(log)
+    if (match) return BigInt(match[1])
+  }
+  return null
+}
+
+function getAmount(
+  instruction: ProjectInstructionName,
+  data: Record<string, unknown>,
+  events: ProjectEvent[],
+  logs: string[],
+): bigint | null {
+  switch (instruction) {
+    case 'createProject':
+    case 'createTokenProject':
+      return BigInt(String(data.financialTarget))
+    case 'donate':
+    case 'donateToken': {
+      // The event has what reached the project, after Token-2022 transfer fees
+      const donation = events.find((event) => event.name === 'donationReceived')
+      return donation ? BigInt(donation.data.amount.toString()) : BigInt(String(data.amount))
+    }
+    case 'claimRefund':
+    case 'claimTokenRefund': {
+      const refund = events.find((event) => event.name === 'refundClaimed')
+      return refund ? BigInt(refund.data.amount.toString()) : parseRefundLog(logs)
+    }
+    case 'batchRefund':
+    case 'batchTokenRefund':
+      // One refundClaimed event per refunded donator
+      return events.reduce(
+        (total, event) => (event.name === 'refundClaimed' ? total + BigInt(event.data.amount.toString()) : total),
+        0n,
+      )
+    default:
+      return null
+  }
+}
+
+function getStatus(
+  instruction: ProjectInstructionName,
+  events: ProjectEvent[],
+  logs: string[],
+): ProjectStatusVariant | null {
+  const statusChanged = events.find((event) => event.name === 'statusChanged')
+  if (statusChanged) {
+    return PROJECT_STATUS_VARIANTS.find((variant) => variant in statusChanged.data.status) ?? null
+  }
+
+  switch (instruction) {
+    case 'pauseProject':
+      return 'paused'
+    case 'resumeProject':
+    case 'finalizeProject':
+      return parseStatusLog(logs)
+    case 'closeProject':
+      return logs.includes(CLOSED_AS_FAILED_LOG) ? 'failed' : 'success'
+    default:
+      return null
+  }
+}
+
+// FundingMe instructions of a transaction that act on `project`. Failed transactions changed nothing and are skipped.
+// Logs are read for the whole transaction, which holds one FundingMe instruction when sent by our clients.
+export function parseProjectActivity(
+  program: Program<FundingmeDapp>,
+  project: PublicKey,
+  signature: string,
+  transaction: VersionedTransactionResponse,
+): ProjectActivity[] {
+  const logs = transaction.meta?.logMessages ?? []
+  const events = parseProjectEvents(program, logs)
+  const blockTime = transaction.blockTime ? new Date(transaction.blockTime * 1000) : null
+
+  return decodeProgramInstructions(program, transaction)
+    .filter((instruction) => instruction.accounts.project?.equals(project))
+    .map(({ name, data, signer }) => ({
+      signature,
+      blockTime,
+      instruction: name,
+      user: signer,
+      amount: getAmount(name, data, events, logs),
+      status: getStatus(name, events, logs),
+    }))
+}
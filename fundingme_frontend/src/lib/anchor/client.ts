@@ -0,0 +1,852 @@
+import { BN, Program } from '@coral-xyz/anchor'
+import { Commitment, PublicKey, Signer, SystemProgram, TransactionInstruction } from '@solana/web3.js'
+import {
+  DonationAccount,
+  FundingmeDapp,
+  PROJECT_STATUS_VARIANTS,
+  ProjectAccount,
+  ProjectStatus,
+  ProjectStatusVariant,
+} from './types'
+import { MAX_AMOUNT } from '../amount'
+import { parseProjectActivity, ProjectActivityPage } from './activity'
+import { parseProjectEvents, PROJECT_EVENT_NAMES, ProjectEvent } from './events'
+
+// This module only depends on @coral-xyz/anchor and @solana/web3.js (and the plain amount helpers) so it
+// can be shared by the Next.js app and the mocha suite in fundingme_dapp/tests.
+
+export const PROJECT_SEED = 'project'
+export const OWNER_SEED = 'owner'
+export const DONATION_SEED = 'donation'
+export const VAULT_SEED = 'vault'
+
+export const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA')
+export const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb')
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL')
+
+// Decoded accounts with amounts as bigints of base units and counters as plain numbers, derived from the generated account types
+// so that changes to the Rust `ProjectAccount`/`DonationAccount` structs surface here at compile time.
+export type ProjectData = Omit<
+  ProjectAccount,
+  'projectId' | 'financialTarget' | 'balance' | 'deadline' | 'donatorCount'
+> & {
+  address: PublicKey
+  projectId: number
+  financialTarget: bigint
+  balance: bigint
+  deadline: Date | null
+  donatorCount: number
+}
+
+export type DonationData = Omit<DonationAccount, 'amount'> & {
+  address: PublicKey
+  amount: bigint
+}
+
+// Mint accepted by a token project; its owner tells whether it is an SPL Token or a Token-2022 mint
+export type MintData = {
+  address: PublicKey
+  decimals: number
+  tokenProgram: PublicKey
+}
+
+export type FundingMeRpcOptions = {
+  // Extra signers, e.g. the Keypairs used by the mocha tests
+  signers?: Signer[]
+  commitment?: Commitment
+}
+
+// Mirrors ProjectAccount::space in the program: discriminator, owner, project_id, name (length prefix + bytes),
+// financial_target, balance, status, deadline (Option<i64>), donator_count, mint (Option<Pubkey>) and bump
+export function getProjectAccountSpace(name: string): number {
+  return 8 + 32 + 8 + (4 + Buffer.byteLength(name)) + 8 + 8 + 1 + (1 + 8) + 8 + (1 + 32) + 1
+}
+
+// Discriminator, owner, project_count and bump of the OwnerAccount
+export const OWNER_ACCOUNT_SPACE = 8 + 32 + 8 + 1
+
+// Discriminator, project, donator, amount and bump of the DonationAccount
+export const DONATION_ACCOUNT_SPACE = 8 + 32 + 32 + 8 + 1
+
+// Donators per batch refund transaction. Each one adds its receipt and wallet to a transaction of at most 1232 bytes.
+export const REFUND_BATCH_SIZE = 12
+// Token refunds also add the token account, the instruction creating it and a token transfer to the compute budget
+export const TOKEN_REFUND_BATCH_SIZE = 4
+
+// Reported after each batch refund transaction
+export type RefundProgress = {
+  refunded: number
+  total: number
+  signature: string
+}
+
+// u64 instruction argument from an amount in base units (lamports for SOL, base units of the mint for tokens)
+export function toU64(amount: bigint): BN {
+  if (amount < 0n || amount > MAX_AMOUNT) {
+    throw new RangeError(`Amount ${amount} does not fit in a u64`)
+  }
+  return new BN(amount.toString())
+}
+
+function fromU64(value: BN): bigint {
+  return BigInt(value.toString())
+}
+
+export function getStatusVariant(status: ProjectStatus): ProjectStatusVariant {
+  const variant = PROJECT_STATUS_VARIANTS.find((name) => name in status)
+  if (!variant) {
+    throw new Error(`Unknown project status: ${JSON.stringify(status)}`)
+  }
+  return variant
+}
+
+// Keyed by the generated status variants so a new ProjectStatus in Rust fails to compile here
+export const STATUS_TEXT: Record<ProjectStatusVariant, string> = {
+  active: 'Active',
+  paused: 'Paused',
+  targetReached: 'Target Reached',
+  success: 'Success',
+  failed: 'Failed',
+}
+
+// Mirrors the on-chain check: donations stop and finalize_project opens once the deadline is reached
+export function isDeadlinePassed(project: Pick<ProjectData, 'deadline'>, now: Date = new Date()): boolean {
+  return project.deadline !== null && now.getTime() >= project.deadline.getTime()
+}
+
+export function canFinalize(project: Pick<ProjectData, 'deadline' | 'status'>, now: Date = new Date()): boolean {
+  const variant = getStatusVariant(project.status)
+  return isDeadlinePassed(project, now) && (variant === 'active' || variant === 'targetReached' || variant === 'paused')
+}
+
+export function findOwnerPDA(owner: PublicKey, programId: PublicKey): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync([Buffer.from(OWNER_SEED), owner.toBuffer()], programId)
+}
+
+// Projects are seeded with the owner's project counter at creation time, so one wallet can own many
+export function findProjectPDA(owner: PublicKey, projectId: number, programId: PublicKey): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(PROJECT_SEED), owner.toBuffer(), new BN(projectId).toArrayLike(Buffer, 'le', 8)],
+    programId,
+  )
+}
+
+// One receipt per donator and project, holding the donator's cumulative amount
+export function findDonationPDA(project: PublicKey, donator: PublicKey, programId: PublicKey): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(DONATION_SEED), project.toBuffer(), donator.toBuffer()],
+    programId,
+  )
+}
+
+// Token account owned by a token project that holds its donations
+export function findVaultPDA(project: PublicKey, programId: PublicKey): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync([Buffer.from(VAULT_SEED), project.toBuffer()], programId)
+}
+
+export function findAssociatedTokenAddress(owner: PublicKey, mint: PublicKey, tokenProgram: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), tokenProgram.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+  )[0]
+}
+
+// CreateIdempotent of the associated token account program: a no-op when the account already exists
+export function createAssociatedTokenAccountIdempotentInstruction(
+  payer: PublicKey,
+  owner: PublicKey,
+  mint: PublicKey,
+  tokenProgram: PublicKey,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: findAssociatedTokenAddress(owner, mint, tokenProgram), isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: tokenProgram, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([1]),
+  })
+}
+
+export class FundingMeClient {
+  constructor(readonly program: Program<FundingmeDapp>) {}
+
+  get programId(): PublicKey {
+    return this.program.programId
+  }
+
+  getOwnerPDA(owner: PublicKey): [PublicKey, number] {
+    return findOwnerPDA(owner, this.programId)
+  }
+
+  getProjectPDA(owner: PublicKey, projectId: number): [PublicKey, number] {
+    return findProjectPDA(owner, projectId, this.programId)
+  }
+
+  getDonationPDA(project: PublicKey, donator: PublicKey): [PublicKey, number] {
+    return findDonationPDA(project, donator, this.programId)
+  }
+
+  getVaultPDA(project: PublicKey): [PublicKey, number] {
+    return findVaultPDA(project, this.programId)
+  }
+
+  async fetchMint(mint: PublicKey): Promise<MintData> {
+    const account = await this.program.provider.connection.getAccountInfo(mint)
+    if (!account || !(account.owner.equals(TOKEN_PROGRAM_ID) || account.owner.equals(TOKEN_2022_PROGRAM_ID))) {
+      throw new Error(`${mint.toBase58()} is not a token mint`)
+    }
+    // Mint layout: mint_authority (COption<Pubkey>, 36 bytes), supply (u64), then decimals (u8)
+    return { address: mint, decimals: account.data[44], tokenProgram: account.owner }
+  }
+
+  // Number of projects the owner has ever created; ids run from 0 to count - 1
+  async fetchProjectCount(owner: PublicKey): Promise<number> {
+    const [ownerPDA] = this.getOwnerPDA(owner)
+    const account = await this.program.account.ownerAccount.fetchNullable(ownerPDA)
+    return account ? account.projectCount.toNumber() : 0
+  }
+
+  async fetchProject(owner: PublicKey, projectId: number): Promise<ProjectData | null> {
+    const [projectPDA] = this.getProjectPDA(owner, projectId)
+    const account = await this.program.account.projectAccount.fetchNullable(projectPDA)
+    return account ? toProjectData(projectPDA, account) : null
+  }
+
+  // All projects of an owner that still exist, oldest first. Withdrawn or closed projects are skipped.
+  async fetchProjects(owner: PublicKey): Promise<ProjectData[]> {
+    const count = await this.fetchProjectCount(owner)
+    if (count === 0) return []
+
+    const addresses = Array.from({ length: count }, (_, projectId) => this.getProjectPDA(owner, projectId)[0])
+    const accounts = await this.program.account.projectAccount.fetchMultiple(addresses)
+    return accounts.flatMap((account, index) => (account ? [toProjectData(addresses[index], account)] : []))
+  }
+
+  // Calls `onChange` with the decoded project whenever its account changes, and with null once it is closed
+  // (withdraw, close_failed_project). RPCs without websocket support are covered by polling every `pollInterval` ms,
+  // so `onChange` may also be called with an unchanged project. Returns a function that stops watching.
+  watchProject(
+    address: PublicKey,
+    onChange: (project: ProjectData | null) => void,
+    pollInterval: number = 30_000,
+  ): () => void {
+    const connection = this.program.provider.connection
+    const handle = (data: Buffer | null) => {
+      if (!data || data.length === 0) {
+        onChange(null)
+        return
+      }
+      onChange(toProjectData(address, this.program.coder.accounts.decode<ProjectAccount>('projectAccount', data)))
+    }
+
+    const subscription = connection.onAccountChange(address, (info) => handle(info.lamports > 0 ? info.data : null), {
+      commitment: 'confirmed',
+    })
+    const poll = setInterval(() => {
+      connection
+        .getAccountInfo(address, 'confirmed')
+        .then((info) => handle(info ? info.data : null))
+        .catch((error) => console.error('Error polling project:', error))
+    }, pollInterval)
+
+    return () => {
+      clearInterval(poll)
+      connection.removeAccountChangeListener(subscription).catch(() => {})
+    }
+  }
+
+  // Calls `onEvent` for every event the program emits about `project`, as soon as the transaction is confirmed.
+  // Events need a websocket connection and are not replayed, `watchProject` stays the source of truth for the state.
+  // Returns a function that stops watching.
+  watchProjectEvents(project: PublicKey, onEvent: (event: ProjectEvent, signature: string) => void): () => void {
+    const listeners = PROJECT_EVENT_NAMES.map((name) =>
+      this.program.addEventListener(
+        name,
+        (data, _slot, signature) => {
+          if (data.project.equals(project)) onEvent({ name, data } as ProjectEvent, signature)
+        },
+        'confirmed',
+      ),
+    )
+    return () => {
+      listeners.forEach((listener) => this.program.removeEventListener(listener).catch(() => {}))
+    }
+  }
+
+  // Events emitted by a confirmed transaction, e.g. one sent through this client
+  async fetchTransactionEvents(signature: string): Promise<ProjectEvent[]> {
+    const transaction = await this.program.provider.connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    })
+    return parseProjectEvents(this.program, transaction?.meta?.logMessages ?? [])
+  }
+
+  // Every project of every owner, read with a single getProgramAccounts call
+  async fetchAllProjects(): Promise<ProjectData[]> {
+    const accounts = await this.program.account.projectAccount.all()
+    return accounts.map(({ publicKey, account }) => toProjectData(publicKey, account))
+  }
+
+  async fetchDonation(project: PublicKey, donator: PublicKey): Promise<DonationData | null> {
+    const [donationPDA] = this.getDonationPDA(project, donator)
+    const account = await this.program.account.donationAccount.fetchNullable(donationPDA)
+    return account ? toDonationData(donationPDA, account) : null
+  }
+
+  // Backers of a project, largest donation first. Receipts of refunded donators are closed and not listed.
+  async fetchDonations(project: PublicKey): Promise<DonationData[]> {
+    // DonationAccount.project directly follows the 8 byte discriminator
+    const accounts = await this.program.account.donationAccount.all([
+      { memcmp: { offset: 8, bytes: project.toBase58() } },
+    ])
+    return accounts
+      .map(({ publicKey, account }) => toDonationData(publicKey, account))
+      .sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0))
+  }
+
+  // Activity of a project, newest first, read from up to `limit` transactions older than the `before` signature
+  async fetchProjectActivity(project: PublicKey, before?: string, limit: number = 20): Promise<ProjectActivityPage> {
+    const { connection } = this.program.provider
+    const signatures = await connection.getSignaturesForAddress(project, { before, limit }, 'confirmed')
+    const transactions = await connection.getTransactions(
+      signatures.map(({ signature }) => signature),
+      { commitment: 'confirmed', maxSupportedTransactionVersion: 0 },
+    )
+    return {
+      activity: transactions.flatMap((transaction, index) =>
+        transaction ? parseProjectActivity(this.program, project, signatures[index].signature, transaction) : [],
+      ),
+      cursor: signatures.length === limit ? signatures[signatures.length - 1].signature : null,
+    }
+  }
+
+  // Donation receipts of a donator across all projects, largest donation first. Receipts stay open until a refund or
+  // until they are closed after the project succeeded, so they also index projects that were withdrawn since.
+  async fetchDonationsByDonator(donator: PublicKey): Promise<DonationData[]> {
+    // DonationAccount.donator follows the discriminator and the 32 byte project key
+    const accounts = await this.program.account.donationAccount.all([
+      { memcmp: { offset: 40, bytes: donator.toBase58() } },
+    ])
+    return accounts
+      .map(({ publicKey, account }) => toDonationData(publicKey, account))
+      .sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0))
+  }
+
+  // Projects at the given addresses in the same order, null for project accounts that are closed
+  async fetchProjectsByAddress(addresses: PublicKey[]): Promise<(ProjectData | null)[]> {
+    const accounts = await this.program.account.projectAccount.fetchMultiple(addresses)
+    return accounts.map((account, index) => (account ? toProjectData(addresses[index], account) : null))
+  }
+
+  // Rent deposit paid by the owner at creation, including the owner counter account for a wallet's first project.
+  // It is returned when the project account is closed.
+  async getCreateProjectRent(owner: PublicKey, name: string): Promise<number> {
+    const { connection } = this.program.provider
+    const [ownerPDA] = this.getOwnerPDA(owner)
+    const [projectRent, ownerAccount] = await Promise.all([
+      connection.getMinimumBalanceForRentExemption(getProjectAccountSpace(name)),
+      connection.getAccountInfo(ownerPDA),
+    ])
+    const ownerRent = ownerAccount ? 0 : await connection.getMinimumBalanceForRentExemption(OWNER_ACCOUNT_SPACE)
+    return projectRent + ownerRent
+  }
+
+  // Rent for the donation receipt, paid by a donator on their first donation to a project and returned on refund
+  async getDonationReceiptRent(): Promise<number> {
+    return this.program.provider.connection.getMinimumBalanceForRentExemption(DONATION_ACCOUNT_SPACE)
+  }
+
+  async createProject(
+    user: PublicKey,
+    name: string,
+    financialTarget: bigint,
+    deadline: Date | null = null,
+    options: FundingMeRpcOptions = {},
+  ): Promise<{ signature: string; projectId: number }> {
+    const [ownerPDA] = this.getOwnerPDA(user)
+    const projectId = await this.fetchProjectCount(user)
+    const [projectPDA] = this.getProjectPDA(user, projectId)
+
+    const signature = await this.program.methods
+      .createProject(name, toU64(financialTarget), deadline ? new BN(Math.floor(deadline.getTime() / 1000)) : null)
+      .accountsStrict({
+        user,
+        ownerAccount: ownerPDA,
+        project: projectPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+
+    return { signature, projectId }
+  }
+
+  async donate(
+    user: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    amount: bigint,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const [projectPDA] = this.getProjectPDA(owner, projectId)
+
+    return this.program.methods
+      .donate(toU64(amount))
+      .accountsStrict({
+        user,
+        project: projectPDA,
+        donation: this.getDonationPDA(projectPDA, user)[0],
+        systemProgram: SystemProgram.programId,
+      })
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  // Owner only: blocks donations until the project is resumed
+  async pauseProject(
+    user: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const [projectPDA] = this.getProjectPDA(owner, projectId)
+
+    return this.program.methods
+      .pauseProject()
+      .accountsStrict({
+        user,
+        project: projectPDA,
+      })
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  async resumeProject(
+    user: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const [projectPDA] = this.getProjectPDA(owner, projectId)
+
+    return this.program.methods
+      .resumeProject()
+      .accountsStrict({
+        user,
+        project: projectPDA,
+      })
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  async closeProject(
+    user: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const [projectPDA] = this.getProjectPDA(owner, projectId)
+
+    return this.program.methods
+      .closeProject()
+      .accountsStrict({
+        user,
+        project: projectPDA,
+      })
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  async withdraw(
+    user: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const [projectPDA] = this.getProjectPDA(owner, projectId)
+
+    return this.program.methods
+      .withdraw()
+      .accountsStrict({
+        user,
+        project: projectPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  // Can be sent by any wallet once the project deadline has passed
+  async finalizeProject(
+    user: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const [projectPDA] = this.getProjectPDA(owner, projectId)
+
+    return this.program.methods
+      .finalizeProject()
+      .accountsStrict({
+        user,
+        project: projectPDA,
+      })
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  async claimRefund(
+    donator: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const [projectPDA] = this.getProjectPDA(owner, projectId)
+
+    return this.program.methods
+      .claimRefund()
+      .accountsStrict({
+        donator,
+        project: projectPDA,
+        donation: this.getDonationPDA(projectPDA, donator)[0],
+        systemProgram: SystemProgram.programId,
+      })
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  async closeFailedProject(
+    user: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const [projectPDA] = this.getProjectPDA(owner, projectId)
+
+    return this.program.methods
+      .closeFailedProject()
+      .accountsStrict({
+        user,
+        project: projectPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  // Token projects raise `financialTarget` base units of `mint` (SPL Token or Token-2022) instead of lamports
+  async createTokenProject(
+    user: PublicKey,
+    name: string,
+    mint: PublicKey,
+    financialTarget: bigint,
+    deadline: Date | null = null,
+    options: FundingMeRpcOptions = {},
+  ): Promise<{ signature: string; projectId: number }> {
+    const [ownerPDA] = this.getOwnerPDA(user)
+    const [projectId, mintData] = await Promise.all([this.fetchProjectCount(user), this.fetchMint(mint)])
+    const [projectPDA] = this.getProjectPDA(user, projectId)
+
+    const signature = await this.program.methods
+      .createTokenProject(name, toU64(financialTarget), deadline ? new BN(Math.floor(deadline.getTime() / 1000)) : null)
+      .accountsStrict({
+        user,
+        ownerAccount: ownerPDA,
+        project: projectPDA,
+        mint,
+        vault: this.getVaultPDA(projectPDA)[0],
+        tokenProgram: mintData.tokenProgram,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+
+    return { signature, projectId }
+  }
+
+  // `amount` is in base units of the mint; donates from the donator's associated token account unless another one is given
+  async donateToken(
+    user: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    amount: bigint,
+    donatorTokenAccount: PublicKey | null = null,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const { projectPDA, mint } = await this.fetchProjectMint(owner, projectId)
+
+    return this.program.methods
+      .donateToken(toU64(amount))
+      .accountsStrict({
+        user,
+        project: projectPDA,
+        donation: this.getDonationPDA(projectPDA, user)[0],
+        mint: mint.address,
+        donatorTokenAccount: donatorTokenAccount ?? findAssociatedTokenAddress(user, mint.address, mint.tokenProgram),
+        vault: this.getVaultPDA(projectPDA)[0],
+        tokenProgram: mint.tokenProgram,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  // Refunds go to the donator's associated token account, which is created first if it was closed in the meantime
+  async claimTokenRefund(
+    donator: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const { projectPDA, mint } = await this.fetchProjectMint(owner, projectId)
+
+    return this.program.methods
+      .claimTokenRefund()
+      .accountsStrict({
+        donator,
+        project: projectPDA,
+        donation: this.getDonationPDA(projectPDA, donator)[0],
+        mint: mint.address,
+        vault: this.getVaultPDA(projectPDA)[0],
+        donatorTokenAccount: findAssociatedTokenAddress(donator, mint.address, mint.tokenProgram),
+        tokenProgram: mint.tokenProgram,
+        systemProgram: SystemProgram.programId,
+      })
+      .preInstructions([
+        createAssociatedTokenAccountIdempotentInstruction(donator, donator, mint.address, mint.tokenProgram),
+      ])
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  async withdrawToken(
+    user: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const { projectPDA, mint } = await this.fetchProjectMint(owner, projectId)
+
+    return this.program.methods
+      .withdrawToken()
+      .accountsStrict({
+        user,
+        project: projectPDA,
+        mint: mint.address,
+        vault: this.getVaultPDA(projectPDA)[0],
+        ownerTokenAccount: findAssociatedTokenAddress(user, mint.address, mint.tokenProgram),
+        tokenProgram: mint.tokenProgram,
+        systemProgram: SystemProgram.programId,
+      })
+      .preInstructions([createAssociatedTokenAccountIdempotentInstruction(user, user, mint.address, mint.tokenProgram)])
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  async closeFailedTokenProject(
+    user: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const { projectPDA, mint } = await this.fetchProjectMint(owner, projectId)
+
+    return this.program.methods
+      .closeFailedTokenProject()
+      .accountsStrict({
+        user,
+        project: projectPDA,
+        mint: mint.address,
+        vault: this.getVaultPDA(projectPDA)[0],
+        ownerTokenAccount: findAssociatedTokenAddress(user, mint.address, mint.tokenProgram),
+        tokenProgram: mint.tokenProgram,
+        systemProgram: SystemProgram.programId,
+      })
+      .preInstructions([createAssociatedTokenAccountIdempotentInstruction(user, user, mint.address, mint.tokenProgram)])
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  // Refunds the given donations of a failed project in one transaction, the funds and receipt rents go back to the
+  // donators. Any wallet can send it, not only the owner.
+  async batchRefund(
+    user: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    donations: Pick<DonationData, 'address' | 'donator'>[],
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const [projectPDA] = this.getProjectPDA(owner, projectId)
+
+    return this.program.methods
+      .batchRefund()
+      .accountsStrict({
+        user,
+        project: projectPDA,
+      })
+      .remainingAccounts(
+        donations.flatMap(({ address, donator }) => [
+          { pubkey: address, isSigner: false, isWritable: true },
+          { pubkey: donator, isSigner: false, isWritable: true },
+        ]),
+      )
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  // Tokens go to the donators' associated token accounts, created at the expense of `user` when they do not exist
+  async batchTokenRefund(
+    user: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    donations: Pick<DonationData, 'address' | 'donator'>[],
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    const { projectPDA, mint } = await this.fetchProjectMint(owner, projectId)
+
+    return this.program.methods
+      .batchTokenRefund()
+      .accountsStrict({
+        user,
+        project: projectPDA,
+        mint: mint.address,
+        vault: this.getVaultPDA(projectPDA)[0],
+        tokenProgram: mint.tokenProgram,
+      })
+      .remainingAccounts(
+        donations.flatMap(({ address, donator }) => [
+          { pubkey: address, isSigner: false, isWritable: true },
+          { pubkey: donator, isSigner: false, isWritable: true },
+          {
+            pubkey: findAssociatedTokenAddress(donator, mint.address, mint.tokenProgram),
+            isSigner: false,
+            isWritable: true,
+          },
+        ]),
+      )
+      .preInstructions(
+        donations.map(({ donator }) =>
+          createAssociatedTokenAccountIdempotentInstruction(user, donator, mint.address, mint.tokenProgram),
+        ),
+      )
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  // Refunds every donator of a failed project, one transaction after the other, so the owner can close it without
+  // waiting for donators to claim. A donator who claims in the meantime fails the current batch, calling this again
+  // continues with the donators that are left.
+  async refundDonators(
+    user: PublicKey,
+    owner: PublicKey,
+    projectId: number,
+    onProgress?: (progress: RefundProgress) => void,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string[]> {
+    const project = await this.fetchProject(owner, projectId)
+    if (!project) {
+      throw new Error('Project account not found')
+    }
+    const donations = await this.fetchDonations(project.address)
+    const batchSize = project.mint ? TOKEN_REFUND_BATCH_SIZE : REFUND_BATCH_SIZE
+
+    const signatures: string[] = []
+    for (let start = 0; start < donations.length; start += batchSize) {
+      const batch = donations.slice(start, start + batchSize)
+      const signature = project.mint
+        ? await this.batchTokenRefund(user, owner, projectId, batch, options)
+        : await this.batchRefund(user, owner, projectId, batch, options)
+      signatures.push(signature)
+      onProgress?.({ refunded: start + batch.length, total: donations.length, signature })
+    }
+    return signatures
+  }
+
+  // Closes the given donation receipts of a successful or withdrawn project, their rent goes back to the donators.
+  // Takes the project address because a withdrawn project has no account left to read the owner and id from.
+  async closeReceipts(
+    user: PublicKey,
+    project: PublicKey,
+    donations: Pick<DonationData, 'address' | 'donator'>[],
+    options: FundingMeRpcOptions = {},
+  ): Promise<string> {
+    return this.program.methods
+      .closeReceipts()
+      .accountsStrict({
+        user,
+        project,
+      })
+      .remainingAccounts(
+        donations.flatMap(({ address, donator }) => [
+          { pubkey: address, isSigner: false, isWritable: true },
+          { pubkey: donator, isSigner: false, isWritable: true },
+        ]),
+      )
+      .signers(options.signers ?? [])
+      .rpc({ commitment: options.commitment })
+  }
+
+  // Closes every donation receipt of a successful or withdrawn project, as many per transaction as a batch refund
+  async closeProjectReceipts(
+    user: PublicKey,
+    project: PublicKey,
+    options: FundingMeRpcOptions = {},
+  ): Promise<string[]> {
+    const donations = await this.fetchDonations(project)
+    const signatures: string[] = []
+    for (let start = 0; start < donations.length; start += REFUND_BATCH_SIZE) {
+      signatures.push(
+        await this.closeReceipts(user, project, donations.slice(start, start + REFUND_BATCH_SIZE), options),
+      )
+    }
+    return signatures
+  }
+
+  private async fetchProjectMint(
+    owner: PublicKey,
+    projectId: number,
+  ): Promise<{ projectPDA: PublicKey; mint: MintData }> {
+    const [projectPDA] = this.getProjectPDA(owner, projectId)
+    const { mint } = await this.program.account.projectAccount.fetch(projectPDA)
+    if (!mint) {
+      throw new Error('This project is funded in SOL')
+    }
+    return { projectPDA, mint: await this.fetchMint(mint) }
+  }
+
+  // get_donator_count only reads the project, so Anchor can simulate it and decode the returned u64
+  async getDonatorCount(user: PublicKey, owner: PublicKey, projectId: number): Promise<number> {
+    const [projectPDA] = this.getProjectPDA(owner, projectId)
+
+    const count = await this.program.methods
+      .getDonatorCount()
+      .accountsStrict({
+        user,
+        project: projectPDA,
+      })
+      .view()
+    return count.toNumber()
+  }
+}
+
+function toProjectData(address: PublicKey, account: ProjectAccount): ProjectData {
+  return {
+    ...account,
+    address,
+    projectId: account.projectId.toNumber(),
+    financialTarget: fromU64(account.financialTarget),
+    balance: fromU64(account.balance),
+    deadline: account.deadline ? new Date(account.deadline.toNumber() * 1000) : null,
+    donatorCount: account.donatorCount.toNumber(),
+  }
+}
+
+function toDonationData(address: PublicKey, account: DonationAccount): DonationData {
+  return { ...account, address, amount: fromU64(account.amount) }
+}
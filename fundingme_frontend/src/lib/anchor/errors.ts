@@ -0,0 +1,172 @@
+import { AnchorError, ProgramError } from '@coral-xyz/anchor'
+import { PROGRAM_ERRORS, ProgramErrorName } from './types'
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from './client'
+
+// Turns the errors thrown by wallets, web3.js and Anchor into something we can show to users:
+// `title` says what went wrong, `description` says what to do next.
+
+export type TranslatedError = {
+  title: string
+  description: string
+}
+
+// Keyed by the generated error table so a new CustomError variant in Rust fails to compile until it has a message here
+const PROGRAM_ERROR_MESSAGES: Record<ProgramErrorName, TranslatedError> = {
+  InvalidProjectStatus: {
+    title: 'This action is not available for the current project status',
+    description: 'The project may have changed since you loaded it. Reload the project and check its status.',
+  },
+  ProjectWithdrawNotAvailable: {
+    title: 'Funds cannot be withdrawn yet',
+    description:
+      'Withdrawals are only possible once the project is closed with status Success. Close the project first.',
+  },
+  UserNotAuthorized: {
+    title: 'Your wallet is not allowed to do this',
+    description:
+      'Only the project owner can manage the project, and only donators can claim refunds. Check the connected wallet.',
+  },
+  InvalidDeadline: {
+    title: 'The deadline is in the past',
+    description: 'Pick a deadline in the future, or leave it empty for a project without a deadline.',
+  },
+  DeadlinePassed: {
+    title: 'This project no longer accepts donations',
+    description: 'Its deadline has passed. Anyone can now finalize the project as Success or Failed.',
+  },
+  DeadlineNotReached: {
+    title: 'The project deadline has not been reached yet',
+    description: 'Wait for the countdown to finish before finalizing the project.',
+  },
+  ProjectHasNoDeadline: {
+    title: 'This project has no deadline',
+    description: 'Projects without a deadline can only be closed by their owner.',
+  },
+  ProjectPaused: {
+    title: 'This project is paused',
+    description: 'The owner has paused donations. Try again once the project is resumed.',
+  },
+  DonationsClosed: {
+    title: 'This project is closed',
+    description: 'The project has ended and no longer accepts donations.',
+  },
+  NameTooLong: {
+    title: 'The project name is too long',
+    description: 'Shorten the name and try again.',
+  },
+  InvalidAmount: {
+    title: 'The donation amount is zero',
+    description: 'Enter an amount greater than zero. Token transfer fees can also leave nothing to donate.',
+  },
+  CurrencyMismatch: {
+    title: 'This project is funded in a different currency',
+    description: 'Reload the project and donate in the currency it accepts, either SOL or its token.',
+  },
+  InvalidRefundAccounts: {
+    title: 'Some donators could not be refunded',
+    description: 'A donator may have claimed their refund in the meantime. Reload the project and refund the others.',
+  },
+}
+
+const WALLET_REJECTED: TranslatedError = {
+  title: 'Transaction rejected in your wallet',
+  description: 'Nothing was sent. Try again and approve the transaction in your wallet.',
+}
+
+const INSUFFICIENT_FUNDS: TranslatedError = {
+  title: 'Not enough SOL in your wallet',
+  description: 'Your balance does not cover the amount plus fees and rent. Top up your wallet or use a smaller amount.',
+}
+
+const INSUFFICIENT_TOKENS: TranslatedError = {
+  title: 'Not enough tokens in your wallet',
+  description: 'The selected token account holds less than the amount. Top it up or donate a smaller amount.',
+}
+
+const NO_SOL: TranslatedError = {
+  title: 'Your wallet has no SOL on this network',
+  description: 'Fund the wallet on the selected cluster (e.g. with a devnet airdrop) and try again.',
+}
+
+const PROJECT_EXISTS: TranslatedError = {
+  title: 'A project already exists at this address',
+  description:
+    'Another project was probably created from this wallet at the same time. Reload "My Projects" and try again.',
+}
+
+const PROJECT_NOT_FOUND: TranslatedError = {
+  title: 'Project account not found',
+  description: 'The project may have been withdrawn or closed. Search for the owner address again.',
+}
+
+const CONSTRAINT_VIOLATION: TranslatedError = {
+  title: 'The program rejected the accounts for this transaction',
+  description: 'The project or wallet does not match what the program expects. Reload the project and try again.',
+}
+
+const EXPIRED: TranslatedError = {
+  title: 'The transaction expired before it was confirmed',
+  description: 'The network may be congested. Check the project state, then try again.',
+}
+
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message
+  if (typeof error === 'string') return error
+  return JSON.stringify(error) ?? String(error)
+}
+
+function getErrorLogs(error: unknown): string[] {
+  if (!error || typeof error !== 'object') return []
+  const { logs, transactionLogs } = error as { logs?: unknown; transactionLogs?: unknown }
+  const result = Array.isArray(logs) ? logs : Array.isArray(transactionLogs) ? transactionLogs : []
+  return result.filter((log): log is string => typeof log === 'string')
+}
+
+function getProgramErrorCode(error: unknown, logs: string[]): number | undefined {
+  if (error instanceof AnchorError) return error.error.errorCode.number
+  if (error instanceof ProgramError) return error.code
+  return AnchorError.parse(logs)?.error.errorCode.number
+}
+
+// SPL Token and Token-2022 fail with custom error 0x1 (InsufficientFunds) when a token account holds too little. Their
+// log also says "insufficient funds", so this is checked before the SOL balance.
+function isInsufficientTokens(logs: string[]): boolean {
+  const tokenPrograms = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((id) => id.toBase58())
+  return logs.some((log) => tokenPrograms.some((id) => log === `Program ${id} failed: custom program error: 0x1`))
+}
+
+function isWalletRejection(error: unknown, message: string): boolean {
+  const { name, code } = (error ?? {}) as { name?: unknown; code?: unknown }
+  return (
+    code === 4001 ||
+    (typeof name === 'string' && name.startsWith('Wallet') && /reject|cancel|declin/i.test(message)) ||
+    /user rejected|rejected the request|request rejected/i.test(message)
+  )
+}
+
+export function translateError(error: unknown, fallbackTitle = 'Transaction failed'): TranslatedError {
+  const message = getErrorMessage(error)
+  const logs = getErrorLogs(error)
+
+  if (isWalletRejection(error, message)) return WALLET_REJECTED
+  if (isInsufficientTokens(logs)) return INSUFFICIENT_TOKENS
+
+  const code = getProgramErrorCode(error, logs)
+  if (code !== undefined) {
+    const name = (Object.keys(PROGRAM_ERRORS) as ProgramErrorName[]).find((key) => PROGRAM_ERRORS[key].code === code)
+    if (name) return PROGRAM_ERROR_MESSAGES[name]
+    // Anchor reserves 2000-2999 for account constraint failures
+    if (code >= 2000 && code < 3000) return CONSTRAINT_VIOLATION
+    // AccountNotInitialized
+    if (code === 3012) return PROJECT_NOT_FOUND
+  }
+
+  const details = [message, ...logs].join('\n')
+  if (/already in use/i.test(details)) return PROJECT_EXISTS
+  if (/no record of a prior credit/i.test(details)) return NO_SOL
+  if (/insufficient lamports|insufficient funds/i.test(details)) return INSUFFICIENT_FUNDS
+  if (/account does not exist|could not find account/i.test(details)) return PROJECT_NOT_FOUND
+  if (/blockhash not found|block height exceeded|was not confirmed/i.test(details)) return EXPIRED
+
+  return { title: fallbackTitle, description: message }
+}
@@ -0,0 +1,28 @@
+import { EventParser, IdlEvents, Program } from '@coral-xyz/anchor'
+import { FundingmeDapp } from './types'
+
+// Structured events the program emits with `emit!` for every lifecycle transition. They travel in the
+// "Program data:" lines of the transaction logs, so they can be read from confirmed transactions as well as
+// subscribed to live through `program.addEventListener`.
+
+export type ProjectEventName = FundingmeDapp['events'][number]['name']
+
+export const PROJECT_EVENT_NAMES = [
+  'projectCreated',
+  'donationReceived',
+  'statusChanged',
+  'fundsWithdrawn',
+  'refundClaimed',
+  'projectClosed',
+] as const satisfies readonly ProjectEventName[]
+
+// Tagged by name so that a switch on `event.name` narrows `event.data` to the payload of that event
+export type ProjectEvent = {
+  [N in ProjectEventName]: { name: N; data: IdlEvents<FundingmeDapp>[N] }
+}[ProjectEventName]
+
+// Events of a transaction in emission order, logs of other programs are skipped
+export function parseProjectEvents(program: Program<FundingmeDapp>, logs: string[]): ProjectEvent[] {
+  const parser = new EventParser(program.programId, program.coder)
+  return Array.from(parser.parseLogs(logs)) as ProjectEvent[]
+}
@@ -0,0 +1,48 @@
+import { BorshInstructionCoder, Program } from '@coral-xyz/anchor'
+import { PublicKey, VersionedTransactionResponse } from '@solana/web3.js'
+import { FundingmeDapp } from './types'
+
+export type ProjectInstructionName = FundingmeDapp['instructions'][number]['name']
+
+export type DecodedInstruction = {
+  name: ProjectInstructionName
+  // Instruction arguments as decoded by Anchor, u64 values are BNs
+  data: Record<string, unknown>
+  // Accounts by their IDL name, e.g. `project` or `donation`
+  accounts: Record<string, PublicKey>
+  // Every FundingMe instruction has exactly one signer: the owner, a donator, or whoever finalized the project
+  signer: PublicKey
+}
+
+// FundingMe instructions of a confirmed transaction in execution order. Only top-level instructions are decoded, our
+// clients never call the program through CPI. Failed transactions changed nothing and decode to no instructions.
+export function decodeProgramInstructions(
+  program: Program<FundingmeDapp>,
+  transaction: VersionedTransactionResponse,
+): DecodedInstruction[] {
+  if (!transaction.meta || transaction.meta.err) return []
+
+  const { message } = transaction.transaction
+  const accountKeys = message.getAccountKeys({ accountKeysFromLookups: transaction.meta.loadedAddresses })
+  const coder = new BorshInstructionCoder(program.idl)
+
+  return message.compiledInstructions.flatMap((compiled) => {
+    if (!accountKeys.get(compiled.programIdIndex)?.equals(program.programId)) return []
+    const decoded = coder.decode(Buffer.from(compiled.data))
+    const idlInstruction = program.idl.instructions.find((ix) => ix.name === decoded?.name)
+    if (!decoded || !idlInstruction) return []
+
+    // Accounts are passed in IDL order
+    const accounts: Record<string, PublicKey> = {}
+    let signer: PublicKey | undefined
+    idlInstruction.accounts.forEach((account, index) => {
+      const key = accountKeys.get(compiled.accountKeyIndexes[index])
+      if (!key) return
+      accounts[account.name] = key
+      if ('signer' in account && account.signer) signer = key
+    })
+    if (!signer) return []
+
+    return [{ name: idlInstruction.name, data: decoded.data as Record<string, unknown>, accounts, signer }]
+  })
+}
@@ -1,44 +1,32 @@
-import { Program, AnchorProvider, Idl } from '@coral-xyz/anchor'
-import { Connection, PublicKey, clusterApiUrl } from '@solana/web3.js'
+import { Program, AnchorProvider, Wallet } from '@coral-xyz/anchor'
+import { clusterApiUrl, Connection, PublicKey } from '@solana/web3.js'
 import IDL from './idl.json'
+import { FundingmeDapp } from './types'
+import { FundingMeClient } from './client'
 
 export const PROGRAM_ID = new PublicKey('DmcSC8vFAoLr756aDoqkV13S6kosdHHNuziRezhCcKUi')
 
-export function getProvider() {
-  if (typeof window === 'undefined') return null
-  
-  const { solana } = window as any
-  if (!solana?.isPhantom || !solana.isConnected) return null
-  
-  const connection = new Connection(clusterApiUrl('devnet'), 'confirmed')
-  const provider = new AnchorProvider(
-    connection,
-    solana,
-    { commitment: 'confirmed' }
-  )
-  
-  return provider
+const CLUSTERS = ['devnet', 'testnet', 'mainnet-beta'] as const
+
+// RPC endpoint of a cluster name (localnet, devnet, testnet, mainnet-beta), any other value is taken as the URL
+export function getRpcUrl(cluster: string): string {
+  if (cluster === 'localnet') return 'http://127.0.0.1:8899'
+  const name = CLUSTERS.find((c) => c === cluster)
+  return name ? clusterApiUrl(name) : cluster
 }
 
-export function getProgram(provider: AnchorProvider): any {
-  return new Program(IDL as any, provider)
+export function getProgram(provider: AnchorProvider): Program<FundingmeDapp> {
+  return new Program(IDL as FundingmeDapp, provider)
 }
 
-export function getProjectPDA(userPublicKey: PublicKey): [PublicKey, number] {
-  return PublicKey.findProgramAddressSync(
-    [Buffer.from('project'), userPublicKey.toBuffer()],
-    PROGRAM_ID
-  )
+export function getClient(provider: AnchorProvider): FundingMeClient {
+  return new FundingMeClient(getProgram(provider))
 }
 
-export async function getProjectAccount(
-  program: any,
-  projectPDA: PublicKey
-) {
-  try {
-    return await program.account.projectAccount.fetch(projectPDA)
-  } catch (error) {
-    console.log('Project not found:', error)
-    return null
-  }
-}
\ No newline at end of file
+// For pages that only read accounts, so they also work before a wallet is connected
+export function getReadonlyClient(connection: Connection): FundingMeClient {
+  const provider = new AnchorProvider(connection, { publicKey: PublicKey.default } as Wallet, {
+    commitment: 'confirmed',
+  })
+  return getClient(provider)
+}
@@ -1,156 +1,654 @@
-import { PublicKey } from '@solana/web3.js'
+// This file is generated by scripts/generate-anchor-types.mjs from the Anchor IDL (src/lib/anchor/idl.json).
+// Do not edit it by hand: run `npm run anchor:types` after `anchor build` instead.
+import type { IdlAccounts, IdlTypes } from '@coral-xyz/anchor'
 
-// Import the IDL type
+// Program IDL type in the camelCase format emitted by `anchor build` (target/types/fundingme_dapp.ts)
 export type FundingmeDapp = {
-  version: '0.1.0'
-  name: 'fundingme_dapp'
+  address: 'DmcSC8vFAoLr756aDoqkV13S6kosdHHNuziRezhCcKUi'
+  metadata: { name: 'fundingmeDapp'; version: '0.1.0'; spec: '0.1.0'; description: 'Created with Anchor' }
   instructions: [
+    {
+      name: 'batchRefund'
+      discriminator: [229, 75, 208, 164, 69, 196, 149, 170]
+      accounts: [
+        { name: 'user'; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+      ]
+      args: []
+    },
+    {
+      name: 'batchTokenRefund'
+      discriminator: [32, 171, 124, 15, 23, 123, 48, 176]
+      accounts: [
+        { name: 'user'; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+        { name: 'mint' },
+        {
+          name: 'vault'
+          writable: true
+          pda: { seeds: [{ kind: 'const'; value: [118, 97, 117, 108, 116] }, { kind: 'account'; path: 'project' }] }
+        },
+        { name: 'tokenProgram' },
+      ]
+      args: []
+    },
     {
       name: 'claimRefund'
+      discriminator: [15, 16, 30, 161, 255, 228, 97, 60]
+      accounts: [
+        { name: 'donator'; writable: true; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+        {
+          name: 'donation'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [100, 111, 110, 97, 116, 105, 111, 110] },
+              { kind: 'account'; path: 'project' },
+              { kind: 'account'; path: 'donator' },
+            ]
+          }
+        },
+        { name: 'systemProgram'; address: '11111111111111111111111111111111' },
+      ]
+      args: []
+    },
+    {
+      name: 'claimTokenRefund'
+      discriminator: [190, 74, 67, 205, 24, 166, 224, 96]
       accounts: [
-        { name: 'donator'; isMut: true; isSigner: true },
-        { name: 'project'; isMut: true; isSigner: false },
-        { name: 'systemProgram'; isMut: false; isSigner: false }
+        { name: 'donator'; writable: true; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+        {
+          name: 'donation'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [100, 111, 110, 97, 116, 105, 111, 110] },
+              { kind: 'account'; path: 'project' },
+              { kind: 'account'; path: 'donator' },
+            ]
+          }
+        },
+        { name: 'mint' },
+        {
+          name: 'vault'
+          writable: true
+          pda: { seeds: [{ kind: 'const'; value: [118, 97, 117, 108, 116] }, { kind: 'account'; path: 'project' }] }
+        },
+        { name: 'donatorTokenAccount'; writable: true },
+        { name: 'tokenProgram' },
+        { name: 'systemProgram'; address: '11111111111111111111111111111111' },
       ]
       args: []
     },
     {
       name: 'closeFailedProject'
+      discriminator: [189, 82, 244, 246, 12, 18, 234, 36]
       accounts: [
-        { name: 'user'; isMut: true; isSigner: true },
-        { name: 'project'; isMut: true; isSigner: false },
-        { name: 'systemProgram'; isMut: false; isSigner: false }
+        { name: 'user'; writable: true; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+        { name: 'systemProgram'; address: '11111111111111111111111111111111' },
+      ]
+      args: []
+    },
+    {
+      name: 'closeFailedTokenProject'
+      discriminator: [106, 47, 239, 98, 17, 104, 178, 249]
+      accounts: [
+        { name: 'user'; writable: true; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+        { name: 'mint' },
+        {
+          name: 'vault'
+          writable: true
+          pda: { seeds: [{ kind: 'const'; value: [118, 97, 117, 108, 116] }, { kind: 'account'; path: 'project' }] }
+        },
+        { name: 'ownerTokenAccount'; writable: true },
+        { name: 'tokenProgram' },
+        { name: 'systemProgram'; address: '11111111111111111111111111111111' },
       ]
       args: []
     },
     {
       name: 'closeProject'
+      discriminator: [117, 209, 53, 106, 93, 55, 112, 49]
       accounts: [
-        { name: 'user'; isMut: true; isSigner: true },
-        { name: 'project'; isMut: true; isSigner: false },
-        { name: 'systemProgram'; isMut: false; isSigner: false }
+        { name: 'user'; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+      ]
+      args: []
+    },
+    {
+      name: 'closeReceipts'
+      discriminator: [144, 230, 36, 140, 163, 61, 224, 177]
+      accounts: [
+        { name: 'user'; signer: true },
+        {
+          name: 'project'
+          docs: [
+            'CHECK: a Success project or the address of a withdrawn one, checked in close_receipts. Each receipt must',
+            'belong to it, which close_donation checks.',
+          ]
+        },
       ]
       args: []
     },
     {
       name: 'createProject'
+      discriminator: [148, 219, 181, 42, 221, 114, 145, 190]
+      accounts: [
+        { name: 'user'; writable: true; signer: true },
+        {
+          name: 'ownerAccount'
+          writable: true
+          pda: { seeds: [{ kind: 'const'; value: [111, 119, 110, 101, 114] }, { kind: 'account'; path: 'user' }] }
+        },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'user' },
+              { kind: 'account'; path: 'ownerAccount.projectCount'; account: 'ownerAccount' },
+            ]
+          }
+        },
+        { name: 'systemProgram'; address: '11111111111111111111111111111111' },
+      ]
+      args: [
+        { name: 'name'; type: 'string' },
+        { name: 'financialTarget'; type: 'u64' },
+        { name: 'deadline'; type: { option: 'i64' } },
+      ]
+    },
+    {
+      name: 'createTokenProject'
+      discriminator: [24, 10, 92, 172, 203, 188, 117, 26]
       accounts: [
-        { name: 'user'; isMut: true; isSigner: true },
-        { name: 'project'; isMut: true; isSigner: false },
-        { name: 'systemProgram'; isMut: false; isSigner: false }
+        { name: 'user'; writable: true; signer: true },
+        {
+          name: 'ownerAccount'
+          writable: true
+          pda: { seeds: [{ kind: 'const'; value: [111, 119, 110, 101, 114] }, { kind: 'account'; path: 'user' }] }
+        },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'user' },
+              { kind: 'account'; path: 'ownerAccount.projectCount'; account: 'ownerAccount' },
+            ]
+          }
+        },
+        { name: 'mint' },
+        {
+          name: 'vault'
+          writable: true
+          pda: { seeds: [{ kind: 'const'; value: [118, 97, 117, 108, 116] }, { kind: 'account'; path: 'project' }] }
+        },
+        { name: 'tokenProgram' },
+        { name: 'systemProgram'; address: '11111111111111111111111111111111' },
       ]
       args: [
         { name: 'name'; type: 'string' },
-        { name: 'financialTarget'; type: 'u64' }
+        { name: 'financialTarget'; type: 'u64' },
+        { name: 'deadline'; type: { option: 'i64' } },
       ]
     },
     {
       name: 'donate'
+      discriminator: [121, 186, 218, 211, 73, 70, 196, 180]
+      accounts: [
+        { name: 'user'; writable: true; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+        {
+          name: 'donation'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [100, 111, 110, 97, 116, 105, 111, 110] },
+              { kind: 'account'; path: 'project' },
+              { kind: 'account'; path: 'user' },
+            ]
+          }
+        },
+        { name: 'systemProgram'; address: '11111111111111111111111111111111' },
+      ]
+      args: [{ name: 'amount'; type: 'u64' }]
+    },
+    {
+      name: 'donateToken'
+      discriminator: [25, 216, 125, 238, 108, 3, 44, 126]
       accounts: [
-        { name: 'user'; isMut: true; isSigner: true },
-        { name: 'project'; isMut: true; isSigner: false },
-        { name: 'systemProgram'; isMut: false; isSigner: false }
+        { name: 'user'; writable: true; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+        {
+          name: 'donation'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [100, 111, 110, 97, 116, 105, 111, 110] },
+              { kind: 'account'; path: 'project' },
+              { kind: 'account'; path: 'user' },
+            ]
+          }
+        },
+        { name: 'mint' },
+        { name: 'donatorTokenAccount'; writable: true },
+        {
+          name: 'vault'
+          writable: true
+          pda: { seeds: [{ kind: 'const'; value: [118, 97, 117, 108, 116] }, { kind: 'account'; path: 'project' }] }
+        },
+        { name: 'tokenProgram' },
+        { name: 'systemProgram'; address: '11111111111111111111111111111111' },
       ]
       args: [{ name: 'amount'; type: 'u64' }]
     },
+    {
+      name: 'finalizeProject'
+      discriminator: [161, 232, 117, 5, 108, 131, 145, 232]
+      accounts: [
+        { name: 'user'; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+      ]
+      args: []
+    },
     {
       name: 'getDonatorCount'
+      discriminator: [189, 84, 184, 14, 127, 48, 52, 9]
       accounts: [
-        { name: 'user'; isMut: true; isSigner: true },
-        { name: 'project'; isMut: true; isSigner: false },
-        { name: 'systemProgram'; isMut: false; isSigner: false }
+        { name: 'user'; signer: true },
+        {
+          name: 'project'
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
       ]
       args: []
       returns: 'u64'
     },
+    {
+      name: 'pauseProject'
+      discriminator: [8, 68, 240, 82, 45, 162, 129, 230]
+      accounts: [
+        { name: 'user'; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+      ]
+      args: []
+    },
+    {
+      name: 'resumeProject'
+      discriminator: [11, 74, 18, 128, 57, 187, 127, 235]
+      accounts: [
+        { name: 'user'; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+      ]
+      args: []
+    },
     {
       name: 'withdraw'
+      discriminator: [183, 18, 70, 156, 148, 109, 161, 34]
       accounts: [
-        { name: 'user'; isMut: true; isSigner: true },
-        { name: 'project'; isMut: true; isSigner: false },
-        { name: 'systemProgram'; isMut: false; isSigner: false }
+        { name: 'user'; writable: true; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+        { name: 'systemProgram'; address: '11111111111111111111111111111111' },
       ]
       args: []
-    }
+    },
+    {
+      name: 'withdrawToken'
+      discriminator: [136, 235, 181, 5, 101, 109, 57, 81]
+      accounts: [
+        { name: 'user'; writable: true; signer: true },
+        {
+          name: 'project'
+          writable: true
+          pda: {
+            seeds: [
+              { kind: 'const'; value: [112, 114, 111, 106, 101, 99, 116] },
+              { kind: 'account'; path: 'project.owner'; account: 'projectAccount' },
+              { kind: 'account'; path: 'project.projectId'; account: 'projectAccount' },
+            ]
+          }
+        },
+        { name: 'mint' },
+        {
+          name: 'vault'
+          writable: true
+          pda: { seeds: [{ kind: 'const'; value: [118, 97, 117, 108, 116] }, { kind: 'account'; path: 'project' }] }
+        },
+        { name: 'ownerTokenAccount'; writable: true },
+        { name: 'tokenProgram' },
+        { name: 'systemProgram'; address: '11111111111111111111111111111111' },
+      ]
+      args: []
+    },
   ]
   accounts: [
+    { name: 'donationAccount'; discriminator: [208, 185, 79, 81, 40, 112, 29, 184] },
+    { name: 'ownerAccount'; discriminator: [251, 192, 104, 127, 49, 150, 51, 147] },
+    { name: 'projectAccount'; discriminator: [179, 110, 82, 178, 208, 35, 171, 116] },
+  ]
+  events: [
+    { name: 'donationReceived'; discriminator: [160, 135, 32, 7, 241, 105, 91, 158] },
+    { name: 'fundsWithdrawn'; discriminator: [56, 130, 230, 154, 35, 92, 11, 118] },
+    { name: 'projectClosed'; discriminator: [99, 119, 201, 52, 106, 26, 76, 87] },
+    { name: 'projectCreated'; discriminator: [192, 10, 163, 29, 185, 31, 67, 168] },
+    { name: 'refundClaimed'; discriminator: [136, 64, 242, 99, 4, 244, 208, 130] },
+    { name: 'statusChanged'; discriminator: [146, 235, 222, 125, 145, 246, 34, 240] },
+  ]
+  errors: [
+    { code: 6000; name: 'invalidProjectStatus'; msg: 'Invalid project status for this operation' },
+    { code: 6001; name: 'projectWithdrawNotAvailable'; msg: 'Project is not available for this withdraw operation' },
+    { code: 6002; name: 'userNotAuthorized'; msg: 'User not authorized for this operation' },
+    { code: 6003; name: 'invalidDeadline'; msg: 'Deadline must be in the future' },
+    { code: 6004; name: 'deadlinePassed'; msg: 'Project deadline has passed' },
+    { code: 6005; name: 'deadlineNotReached'; msg: 'Project deadline has not been reached yet' },
+    { code: 6006; name: 'projectHasNoDeadline'; msg: 'Project has no deadline to finalize against' },
+    { code: 6007; name: 'projectPaused'; msg: 'Project is paused and does not accept donations' },
+    { code: 6008; name: 'donationsClosed'; msg: 'Project is closed and no longer accepts donations' },
+    { code: 6009; name: 'nameTooLong'; msg: 'Project name is too long' },
+    { code: 6010; name: 'invalidAmount'; msg: 'Donation amount must be greater than zero' },
+    { code: 6011; name: 'currencyMismatch'; msg: 'Project is funded in a different currency' },
+    {
+      code: 6012
+      name: 'invalidRefundAccounts'
+      msg: 'Refund accounts must be donation receipts of this project, each followed by its donator'
+    },
+  ]
+  types: [
+    {
+      name: 'donationAccount'
+      type: {
+        kind: 'struct'
+        fields: [
+          { name: 'project'; type: 'pubkey' },
+          { name: 'donator'; type: 'pubkey' },
+          { name: 'amount'; type: 'u64' },
+          { name: 'bump'; type: 'u8' },
+        ]
+      }
+    },
+    {
+      name: 'donationReceived'
+      type: {
+        kind: 'struct'
+        fields: [
+          { name: 'project'; type: 'pubkey' },
+          { name: 'donator'; type: 'pubkey' },
+          { name: 'amount'; type: 'u64' },
+          { name: 'balance'; type: 'u64' },
+          { name: 'donatorCount'; type: 'u64' },
+        ]
+      }
+    },
+    {
+      name: 'fundsWithdrawn'
+      type: {
+        kind: 'struct'
+        fields: [
+          { name: 'project'; type: 'pubkey' },
+          { name: 'owner'; type: 'pubkey' },
+          { name: 'amount'; type: 'u64' },
+        ]
+      }
+    },
+    {
+      name: 'ownerAccount'
+      type: {
+        kind: 'struct'
+        fields: [{ name: 'owner'; type: 'pubkey' }, { name: 'projectCount'; type: 'u64' }, { name: 'bump'; type: 'u8' }]
+      }
+    },
     {
       name: 'projectAccount'
       type: {
         kind: 'struct'
         fields: [
-          { name: 'owner'; type: 'publicKey' },
+          { name: 'owner'; type: 'pubkey' },
+          { name: 'projectId'; type: 'u64' },
           { name: 'name'; type: 'string' },
           { name: 'financialTarget'; type: 'u64' },
           { name: 'balance'; type: 'u64' },
-          { name: 'status'; type: { defined: 'ProjectStatus' } },
-          { name: 'donators'; type: { vec: { defined: 'Donator' } } },
-          { name: 'bump'; type: 'u8' }
+          { name: 'status'; type: { defined: { name: 'projectStatus' } } },
+          { name: 'deadline'; type: { option: 'i64' } },
+          { name: 'donatorCount'; type: 'u64' },
+          { name: 'mint'; type: { option: 'pubkey' } },
+          { name: 'bump'; type: 'u8' },
         ]
       }
-    }
-  ]
-  types: [
+    },
+    {
+      name: 'projectClosed'
+      type: { kind: 'struct'; fields: [{ name: 'project'; type: 'pubkey' }, { name: 'owner'; type: 'pubkey' }] }
+    },
     {
-      name: 'Donator'
+      name: 'projectCreated'
       type: {
         kind: 'struct'
         fields: [
-          { name: 'user'; type: 'publicKey' },
-          { name: 'amount'; type: 'u64' }
+          { name: 'project'; type: 'pubkey' },
+          { name: 'owner'; type: 'pubkey' },
+          { name: 'projectId'; type: 'u64' },
+          { name: 'name'; type: 'string' },
+          { name: 'financialTarget'; type: 'u64' },
+          { name: 'deadline'; type: { option: 'i64' } },
+          { name: 'mint'; type: { option: 'pubkey' } },
         ]
       }
     },
     {
-      name: 'ProjectStatus'
+      name: 'projectStatus'
       type: {
         kind: 'enum'
         variants: [
-          { name: 'Active' },
-          { name: 'Paused' },
-          { name: 'TargetReached' },
-          { name: 'Success' },
-          { name: 'Failed' }
+          { name: 'active' },
+          { name: 'paused' },
+          { name: 'targetReached' },
+          { name: 'success' },
+          { name: 'failed' },
         ]
       }
-    }
-  ]
-  errors: [
-    { code: 6000; name: 'InvalidProjectStatus'; msg: 'Invalid project status for this operation' },
-    { code: 6001; name: 'ProjectWithdrawNotAvailable'; msg: 'Project is not available for this withdraw operation' },
-    { code: 6002; name: 'UserNotAuthorized'; msg: 'User not authorized for this operation' }
+    },
+    {
+      name: 'refundClaimed'
+      type: {
+        kind: 'struct'
+        fields: [
+          { name: 'project'; type: 'pubkey' },
+          { name: 'donator'; type: 'pubkey' },
+          { name: 'amount'; type: 'u64' },
+          { name: 'balance'; type: 'u64' },
+          { name: 'remainingDonators'; type: 'u64' },
+        ]
+      }
+    },
+    {
+      name: 'statusChanged'
+      type: {
+        kind: 'struct'
+        fields: [
+          { name: 'project'; type: 'pubkey' },
+          { name: 'previousStatus'; type: { defined: { name: 'projectStatus' } } },
+          { name: 'status'; type: { defined: { name: 'projectStatus' } } },
+        ]
+      }
+    },
   ]
+  constants: [{ name: 'maxNameLen'; type: 'u32'; value: '200' }]
 }
 
-// Simplified types to avoid complex IDL constraints
-export type ProjectAccount = {
-  owner: PublicKey
-  name: string
-  financialTarget: any
-  balance: any
-  status: ProjectStatus
-  donators: Donator[]
-  bump: number
-}
-
-export type Donator = {
-  user: PublicKey
-  amount: number
-}
+export type DonationAccount = IdlAccounts<FundingmeDapp>['donationAccount']
+export type OwnerAccount = IdlAccounts<FundingmeDapp>['ownerAccount']
+export type ProjectAccount = IdlAccounts<FundingmeDapp>['projectAccount']
+export type DonationReceived = IdlTypes<FundingmeDapp>['donationReceived']
+export type FundsWithdrawn = IdlTypes<FundingmeDapp>['fundsWithdrawn']
+export type ProjectClosed = IdlTypes<FundingmeDapp>['projectClosed']
+export type ProjectCreated = IdlTypes<FundingmeDapp>['projectCreated']
+export type ProjectStatus = IdlTypes<FundingmeDapp>['projectStatus']
+export const PROJECT_STATUS_VARIANTS = ['active', 'paused', 'targetReached', 'success', 'failed'] as const
+export type ProjectStatusVariant = 'active' | 'paused' | 'targetReached' | 'success' | 'failed'
+export type RefundClaimed = IdlTypes<FundingmeDapp>['refundClaimed']
+export type StatusChanged = IdlTypes<FundingmeDapp>['statusChanged']
 
-export type ProjectStatus = 
-  | { active: Record<string, never> }
-  | { paused: Record<string, never> }
-  | { targetReached: Record<string, never> }
-  | { success: Record<string, never> }
-  | { failed: Record<string, never> }
+export const MAX_NAME_LEN = 200
 
-export type ProjectData = {
-  owner: PublicKey
-  name: string
-  financialTarget: number
-  balance: number
-  status: ProjectStatus
-  donators: Donator[]
-  bump: number
-}
\ No newline at end of file
+export const PROGRAM_ERRORS = {
+  InvalidProjectStatus: { code: 6000, msg: 'Invalid project status for this operation' },
+  ProjectWithdrawNotAvailable: { code: 6001, msg: 'Project is not available for this withdraw operation' },
+  UserNotAuthorized: { code: 6002, msg: 'User not authorized for this operation' },
+  InvalidDeadline: { code: 6003, msg: 'Deadline must be in the future' },
+  DeadlinePassed: { code: 6004, msg: 'Project deadline has passed' },
+  DeadlineNotReached: { code: 6005, msg: 'Project deadline has not been reached yet' },
+  ProjectHasNoDeadline: { code: 6006, msg: 'Project has no deadline to finalize against' },
+  ProjectPaused: { code: 6007, msg: 'Project is paused and does not accept donations' },
+  DonationsClosed: { code: 6008, msg: 'Project is closed and no longer accepts donations' },
+  NameTooLong: { code: 6009, msg: 'Project name is too long' },
+  InvalidAmount: { code: 6010, msg: 'Donation amount must be greater than zero' },
+  CurrencyMismatch: { code: 6011, msg: 'Project is funded in a different currency' },
+  InvalidRefundAccounts: {
+    code: 6012,
+    msg: 'Refund accounts must be donation receipts of this project, each followed by its donator',
+  },
+} as const
+export type ProgramErrorName = keyof typeof PROGRAM_ERRORS
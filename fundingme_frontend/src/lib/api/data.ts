@@ -0,0 +1,39 @@
+import { unstable_cache } from 'next/cache'
+import { clusterApiUrl, Connection, PublicKey } from '@solana/web3.js'
+import { getReadonlyClient } from '@/lib/anchor/setup'
+import { serializeDonation, serializeMint, serializeProject } from './serialize'
+
+// On-chain reads behind the API routes. Results are cached as JSON for CACHE_SECONDS and shared by every request, so
+// partners polling the API do not turn into RPC load. The RPC is FUNDINGME_RPC_URL, devnet where the demo is deployed.
+
+export const CACHE_SECONDS = 30
+
+function getClient() {
+  return getReadonlyClient(new Connection(process.env.FUNDINGME_RPC_URL || clusterApiUrl('devnet'), 'confirmed'))
+}
+
+// Every open project account, also used for the detail and totals routes so they agree with the listing
+export const getProjects = unstable_cache(
+  async () => (await getClient().fetchAllProjects()).map(serializeProject),
+  ['api-projects'],
+  { revalidate: CACHE_SECONDS },
+)
+
+export const getProjectDonations = unstable_cache(
+  async (project: string) => (await getClient().fetchDonations(new PublicKey(project))).map(serializeDonation),
+  ['api-project-donations'],
+  { revalidate: CACHE_SECONDS },
+)
+
+export const getWalletDonations = unstable_cache(
+  async (wallet: string) => (await getClient().fetchDonationsByDonator(new PublicKey(wallet))).map(serializeDonation),
+  ['api-wallet-donations'],
+  { revalidate: CACHE_SECONDS },
+)
+
+// The decimals and token program of a mint never change
+export const getMint = unstable_cache(
+  async (mint: string) => serializeMint(await getClient().fetchMint(new PublicKey(mint))),
+  ['api-mint'],
+  { revalidate: false },
+)
@@ -0,0 +1,9 @@
+// Request errors are answered with their status and `{ error }`, anything else is a failed on-chain read
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message)
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { PublicKey } from '@solana/web3.js'
+import { PROJECT_STATUS_VARIANTS, ProjectStatusVariant } from '@/lib/anchor/types'
+import { CACHE_SECONDS } from './data'
+import { ApiError } from './errors'
+
+// Runs a route handler: JSON responses that CDNs may cache as long as the data cache, readable from any origin so
+// partners can call the API from their own sites
+export async function handleApiRequest<T>(handler: () => Promise<T>): Promise<NextResponse> {
+  const headers = { 'Access-Control-Allow-Origin': '*' }
+  try {
+    return NextResponse.json(await handler(), {
+      headers: {
+        ...headers,
+        'Cache-Control': `public, s-maxage=${CACHE_SECONDS}, stale-while-revalidate=${CACHE_SECONDS * 2}`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status, headers })
+    }
+    console.error('API request failed:', error)
+    return NextResponse.json({ error: 'Could not read the FundingMe program accounts' }, { status: 502, headers })
+  }
+}
+
+// A base58 public key in its canonical form
+export function parsePublicKey(value: string, name: string): string {
+  try {
+    return new PublicKey(value).toBase58()
+  } catch {
+    throw new ApiError(400, `${name} is not a valid public key`)
+  }
+}
+
+// Optional `status` filter, null when absent
+export function parseStatus(searchParams: URLSearchParams): ProjectStatusVariant | null {
+  const status = searchParams.get('status')
+  if (status === null) return null
+  const variant = PROJECT_STATUS_VARIANTS.find((v) => v === status)
+  if (!variant) {
+    throw new ApiError(400, `status must be one of ${PROJECT_STATUS_VARIANTS.join(', ')}`)
+  }
+  return variant
+}
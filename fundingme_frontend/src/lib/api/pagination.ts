@@ -0,0 +1,110 @@
+import { ApiError } from './errors'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+// Order of a paginated list, defined on a sort key of strings that is also what the cursor holds
+export type Order<T> = {
+  key: (item: T) => string[]
+  keyLength: number
+  compare: (a: string[], b: string[]) => number
+}
+
+const compareStrings = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0)
+
+export function byAddress<T>(getAddress: (item: T) => string): Order<T> {
+  return {
+    key: (item) => [getAddress(item)],
+    keyLength: 1,
+    compare: (a, b) => compareStrings(a[0], b[0]),
+  }
+}
+
+// Largest amount first, ties broken by address so the order is total. Only for amounts of one currency.
+export function byAmount<T>(get: (item: T) => { amount: string; address: string }): Order<T> {
+  return {
+    key: (item) => [get(item).amount, get(item).address],
+    keyLength: 2,
+    compare: (a, b) => {
+      const [amountA, amountB] = [BigInt(a[0]), BigInt(b[0])]
+      return amountA > amountB ? -1 : amountA < amountB ? 1 : compareStrings(a[1], b[1])
+    },
+  }
+}
+
+// Neither is a base58 public key, so they cannot collide with a mint in the sort key
+const SOL_KEY = 'sol'
+const UNKNOWN_KEY = 'unknown'
+const currencyRank = (key: string) => (key === SOL_KEY ? 0 : key === UNKNOWN_KEY ? 2 : 1)
+
+// Amounts of different mints are in different base units, so items are grouped by currency first: SOL (`mint` null),
+// then each mint by address, then items whose currency is unknown (`mint` undefined, e.g. a donation to a withdrawn
+// project). Within a currency the largest amount comes first.
+export function byCurrencyAndAmount<T>(
+  get: (item: T) => { mint: string | null | undefined; amount: string; address: string },
+): Order<T> {
+  const amountOrder = byAmount(get)
+  return {
+    key: (item) => {
+      const { mint } = get(item)
+      return [mint === null ? SOL_KEY : (mint ?? UNKNOWN_KEY), ...amountOrder.key(item)]
+    },
+    keyLength: 1 + amountOrder.keyLength,
+    compare: (a, b) =>
+      currencyRank(a[0]) - currencyRank(b[0]) ||
+      compareStrings(a[0], b[0]) ||
+      amountOrder.compare(a.slice(1), b.slice(1)),
+  }
+}
+
+export type Page<T> = {
+  items: T[]
+  // Pass as `cursor` for the next page, null on the last page
+  nextCursor: string | null
+}
+
+function encodeCursor(key: string[]): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url')
+}
+
+function decodeCursor(cursor: string, keyLength: number): string[] {
+  let key: unknown
+  try {
+    key = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+  } catch {
+    key = null
+  }
+  if (!Array.isArray(key) || key.length !== keyLength || !key.every((part) => typeof part === 'string')) {
+    throw new ApiError(400, 'cursor is not valid')
+  }
+  return key
+}
+
+// Cursor pagination with `cursor` and `limit` (1 to 100, default 20). The cursor is the sort key of the last item
+// of a page, so the next page continues after it even when items were added or removed in between.
+export function paginate<T>(items: T[], order: Order<T>, searchParams: URLSearchParams): Page<T> {
+  const limit = Number(searchParams.get('limit') ?? DEFAULT_LIMIT)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ApiError(400, `limit must be an integer between 1 and ${MAX_LIMIT}`)
+  }
+
+  const sorted = [...items].sort((a, b) => order.compare(order.key(a), order.key(b)))
+  const cursor = searchParams.get('cursor')
+  let remaining = sorted
+  if (cursor) {
+    const after = decodeCursor(cursor, order.keyLength)
+    // Comparing parses the key, e.g. the amount of byAmount
+    try {
+      remaining = sorted.filter((item) => order.compare(order.key(item), after) > 0)
+    } catch {
+      throw new ApiError(400, 'cursor is not valid')
+    }
+  }
+
+  const page = remaining.slice(0, limit)
+  const last = page[page.length - 1]
+  return {
+    items: page,
+    nextCursor: remaining.length > limit && last ? encodeCursor(order.key(last)) : null,
+  }
+}
@@ -0,0 +1,69 @@
+import { DonationData, getStatusVariant, MintData, ProjectData } from '../anchor/client'
+import { ProjectStatusVariant } from '../anchor/types'
+
+// JSON shapes served by the API routes. The same rules apply to every value read from the program:
+// - public keys are base58 strings
+// - u64 amounts (BN on-chain, bigint in the client) are decimal strings of base units, lamports for SOL projects and
+//   base units of the mint for token projects, so no precision is lost in JavaScript numbers
+// - counters and ids are numbers, timestamps are ISO 8601 strings
+// - statuses are the camelCase variant names: active, paused, targetReached, success, failed
+
+export type ProjectJson = {
+  address: string
+  owner: string
+  projectId: number
+  name: string
+  status: ProjectStatusVariant
+  financialTarget: string
+  balance: string
+  donatorCount: number
+  deadline: string | null
+  // Mint of a token project, null when the project raises SOL
+  mint: string | null
+}
+
+export type DonationJson = {
+  // Address of the donation receipt
+  address: string
+  project: string
+  donator: string
+  amount: string
+}
+
+export type MintJson = {
+  address: string
+  decimals: number
+  tokenProgram: string
+}
+
+export function serializeProject(project: ProjectData): ProjectJson {
+  return {
+    address: project.address.toBase58(),
+    owner: project.owner.toBase58(),
+    projectId: project.projectId,
+    name: project.name,
+    status: getStatusVariant(project.status),
+    financialTarget: project.financialTarget.toString(),
+    balance: project.balance.toString(),
+    donatorCount: project.donatorCount,
+    deadline: project.deadline?.toISOString() ?? null,
+    mint: project.mint?.toBase58() ?? null,
+  }
+}
+
+export function serializeDonation(donation: DonationData): DonationJson {
+  return {
+    address: donation.address.toBase58(),
+    project: donation.project.toBase58(),
+    donator: donation.donator.toBase58(),
+    amount: donation.amount.toString(),
+  }
+}
+
+export function serializeMint(mint: MintData): MintJson {
+  return {
+    address: mint.address.toBase58(),
+    decimals: mint.decimals,
+    tokenProgram: mint.tokenProgram.toBase58(),
+  }
+}
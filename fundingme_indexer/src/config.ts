@@ -0,0 +1,47 @@
+import { Finality } from '@solana/web3.js'
+import { getRpcUrl } from '../../fundingme_frontend/src/lib/anchor/setup'
+
+// Settings come from the environment so the same build indexes a local validator or a public cluster:
+//
+//   FUNDINGME_RPC_URL        RPC endpoint or cluster name (localnet, devnet, testnet, mainnet-beta), default localnet
+//   FUNDINGME_DATABASE       path of the SQLite database, created on first run, default ./fundingme.sqlite
+//   FUNDINGME_COMMITMENT     confirmed or finalized, default finalized so rolled back forks never reach the database
+//   FUNDINGME_POLL_INTERVAL  milliseconds between two syncs, default 10000
+//   FUNDINGME_BATCH_SIZE     transactions fetched per getTransactions call, default 50
+
+export type IndexerConfig = {
+  rpcUrl: string
+  databasePath: string
+  commitment: Finality
+  pollInterval: number
+  batchSize: number
+}
+
+function getNumber(name: string, fallback: number): number {
+  const value = process.env[name]
+  if (value === undefined || value === '') return fallback
+  const number = Number(value)
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`)
+  }
+  return number
+}
+
+function getCommitment(): Finality {
+  const value = process.env.FUNDINGME_COMMITMENT ?? 'finalized'
+  if (value !== 'confirmed' && value !== 'finalized') {
+    throw new Error(`FUNDINGME_COMMITMENT must be confirmed or finalized, got "${value}"`)
+  }
+  return value
+}
+
+export function getConfig(): IndexerConfig {
+  return {
+    rpcUrl: getRpcUrl(process.env.FUNDINGME_RPC_URL ?? 'localnet'),
+    databasePath: process.env.FUNDINGME_DATABASE ?? 'fundingme.sqlite',
+    commitment: getCommitment(),
+    pollInterval: getNumber('FUNDINGME_POLL_INTERVAL', 10_000),
+    // getTransactions is a JSON-RPC batch, public RPCs limit how many requests a batch may hold
+    batchSize: getNumber('FUNDINGME_BATCH_SIZE', 50),
+  }
+}
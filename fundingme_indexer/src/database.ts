@@ -0,0 +1,288 @@
+import Database from 'better-sqlite3'
+import { BN } from '@coral-xyz/anchor'
+import { PublicKey } from '@solana/web3.js'
+import { getStatusVariant } from '../../fundingme_frontend/src/lib/anchor/client'
+import { ProjectEvent } from '../../fundingme_frontend/src/lib/anchor/events'
+import { DecodedInstruction } from '../../fundingme_frontend/src/lib/anchor/instructions'
+
+// u64 amounts are stored as decimal TEXT, SQLite integers are signed 64 bit and could not hold every token amount.
+// Statuses use the variant names of the frontend (`targetReached`), keys are base58 and times are unix seconds.
+// Rows are keyed by transaction signature so that replaying a transaction changes nothing.
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS checkpoint (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  program_id TEXT NOT NULL,
+  slot INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS transactions (
+  signature TEXT PRIMARY KEY,
+  slot INTEGER NOT NULL,
+  block_time INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS instructions (
+  signature TEXT NOT NULL REFERENCES transactions (signature),
+  instruction_index INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  signer TEXT NOT NULL,
+  project TEXT,
+  data TEXT NOT NULL,
+  PRIMARY KEY (signature, instruction_index)
+);
+CREATE INDEX IF NOT EXISTS instructions_project ON instructions (project);
+
+CREATE TABLE IF NOT EXISTS projects (
+  address TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  project_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  financial_target TEXT NOT NULL,
+  deadline INTEGER,
+  mint TEXT,
+  status TEXT NOT NULL,
+  balance TEXT NOT NULL,
+  donator_count INTEGER NOT NULL,
+  withdrawn_amount TEXT,
+  created_slot INTEGER NOT NULL,
+  created_signature TEXT NOT NULL,
+  closed_slot INTEGER,
+  closed_signature TEXT,
+  updated_slot INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS projects_owner ON projects (owner);
+
+CREATE TABLE IF NOT EXISTS donations (
+  signature TEXT NOT NULL REFERENCES transactions (signature),
+  event_index INTEGER NOT NULL,
+  project TEXT NOT NULL,
+  donator TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  balance TEXT NOT NULL,
+  slot INTEGER NOT NULL,
+  block_time INTEGER,
+  PRIMARY KEY (signature, event_index)
+);
+CREATE INDEX IF NOT EXISTS donations_project ON donations (project);
+CREATE INDEX IF NOT EXISTS donations_donator ON donations (donator);
+
+CREATE TABLE IF NOT EXISTS refunds (
+  signature TEXT NOT NULL REFERENCES transactions (signature),
+  event_index INTEGER NOT NULL,
+  project TEXT NOT NULL,
+  donator TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  slot INTEGER NOT NULL,
+  block_time INTEGER,
+  PRIMARY KEY (signature, event_index)
+);
+CREATE INDEX IF NOT EXISTS refunds_project ON refunds (project);
+CREATE INDEX IF NOT EXISTS refunds_donator ON refunds (donator);
+
+CREATE TABLE IF NOT EXISTS status_changes (
+  signature TEXT NOT NULL REFERENCES transactions (signature),
+  event_index INTEGER NOT NULL,
+  project TEXT NOT NULL,
+  previous_status TEXT NOT NULL,
+  status TEXT NOT NULL,
+  slot INTEGER NOT NULL,
+  block_time INTEGER,
+  PRIMARY KEY (signature, event_index)
+);
+CREATE INDEX IF NOT EXISTS status_changes_project ON status_changes (project);
+`
+
+// A confirmed FundingMe transaction with its decoded instructions and events
+export type IndexedTransaction = {
+  signature: string
+  slot: number
+  blockTime: number | null
+  instructions: DecodedInstruction[]
+  events: ProjectEvent[]
+}
+
+// Decoded Anchor values as JSON: u64 BNs become decimal strings and public keys base58
+function toJson(value: unknown): unknown {
+  if (value instanceof BN) return value.toString()
+  if (value instanceof PublicKey) return value.toBase58()
+  if (Array.isArray(value)) return value.map(toJson)
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toJson(entry)]))
+  }
+  return value
+}
+
+export class IndexerStore {
+  private readonly db: Database.Database
+  private readonly statements
+
+  constructor(path: string) {
+    this.db = new Database(path)
+    // Readers (analytics, the API) are not blocked while the indexer writes
+    this.db.pragma('journal_mode = WAL')
+    this.db.exec(SCHEMA)
+
+    this.statements = {
+      getCheckpoint: this.db.prepare<[], { program_id: string; slot: number }>(
+        'SELECT program_id, slot FROM checkpoint WHERE id = 1',
+      ),
+      setCheckpoint: this.db.prepare(
+        `INSERT INTO checkpoint (id, program_id, slot, updated_at) VALUES (1, @programId, @slot, unixepoch())
+         ON CONFLICT (id) DO UPDATE SET slot = MAX(slot, excluded.slot), updated_at = excluded.updated_at`,
+      ),
+      insertTransaction: this.db.prepare(
+        'INSERT OR IGNORE INTO transactions (signature, slot, block_time) VALUES (@signature, @slot, @blockTime)',
+      ),
+      insertInstruction: this.db.prepare(
+        `INSERT OR IGNORE INTO instructions (signature, instruction_index, name, signer, project, data)
+         VALUES (@signature, @index, @name, @signer, @project, @data)`,
+      ),
+      insertProject: this.db.prepare(
+        `INSERT OR IGNORE INTO projects (address, owner, project_id, name, financial_target, deadline, mint, status,
+           balance, donator_count, created_slot, created_signature, updated_slot)
+         VALUES (@project, @owner, @projectId, @name, @financialTarget, @deadline, @mint, 'active', '0', 0, @slot,
+           @signature, @slot)`,
+      ),
+      insertDonation: this.db.prepare(
+        `INSERT OR IGNORE INTO donations (signature, event_index, project, donator, amount, balance, slot, block_time)
+         VALUES (@signature, @index, @project, @donator, @amount, @balance, @slot, @blockTime)`,
+      ),
+      insertRefund: this.db.prepare(
+        `INSERT OR IGNORE INTO refunds (signature, event_index, project, donator, amount, slot, block_time)
+         VALUES (@signature, @index, @project, @donator, @amount, @slot, @blockTime)`,
+      ),
+      insertStatusChange: this.db.prepare(
+        `INSERT OR IGNORE INTO status_changes (signature, event_index, project, previous_status, status, slot, block_time)
+         VALUES (@signature, @index, @project, @previousStatus, @status, @slot, @blockTime)`,
+      ),
+      // Events carry the new balance and counters, so applying one twice leaves the same state
+      updateProjectFunding: this.db.prepare(
+        `UPDATE projects SET balance = @balance, donator_count = @donatorCount, updated_slot = @slot
+         WHERE address = @project`,
+      ),
+      updateProjectStatus: this.db.prepare(
+        'UPDATE projects SET status = @status, updated_slot = @slot WHERE address = @project',
+      ),
+      updateProjectWithdrawn: this.db.prepare(
+        'UPDATE projects SET withdrawn_amount = @amount, updated_slot = @slot WHERE address = @project',
+      ),
+      updateProjectClosed: this.db.prepare(
+        `UPDATE projects SET closed_slot = @slot, closed_signature = @signature, updated_slot = @slot
+         WHERE address = @project`,
+      ),
+    }
+  }
+
+  // Every transaction up to and including this slot is stored, null for a new database
+  getCheckpoint(programId: PublicKey): number | null {
+    const checkpoint = this.statements.getCheckpoint.get()
+    if (!checkpoint) return null
+    if (checkpoint.program_id !== programId.toBase58()) {
+      throw new Error(`The database indexes program ${checkpoint.program_id}, not ${programId.toBase58()}`)
+    }
+    return checkpoint.slot
+  }
+
+  // Stores a transaction and moves the checkpoint in one SQLite transaction, an interrupted run resumes cleanly
+  saveTransaction(programId: PublicKey, transaction: IndexedTransaction, checkpoint: number): void {
+    this.db.transaction(() => {
+      const { signature, slot, blockTime } = transaction
+      this.statements.insertTransaction.run({ signature, slot, blockTime })
+
+      transaction.instructions.forEach((instruction, index) => {
+        this.statements.insertInstruction.run({
+          signature,
+          index,
+          name: instruction.name,
+          signer: instruction.signer.toBase58(),
+          project: instruction.accounts.project?.toBase58() ?? null,
+          data: JSON.stringify(toJson(instruction.data)),
+        })
+      })
+      transaction.events.forEach((event, index) => this.applyEvent(event, { signature, index, slot, blockTime }))
+
+      this.statements.setCheckpoint.run({ programId: programId.toBase58(), slot: checkpoint })
+    })()
+  }
+
+  // Moves the checkpoint past slots without new transactions
+  setCheckpoint(programId: PublicKey, slot: number): void {
+    this.statements.setCheckpoint.run({ programId: programId.toBase58(), slot })
+  }
+
+  close(): void {
+    this.db.close()
+  }
+
+  private applyEvent(
+    event: ProjectEvent,
+    context: { signature: string; index: number; slot: number; blockTime: number | null },
+  ): void {
+    const project = event.data.project.toBase58()
+    switch (event.name) {
+      case 'projectCreated':
+        this.statements.insertProject.run({
+          ...context,
+          project,
+          owner: event.data.owner.toBase58(),
+          projectId: event.data.projectId.toNumber(),
+          name: event.data.name,
+          financialTarget: event.data.financialTarget.toString(),
+          deadline: event.data.deadline?.toNumber() ?? null,
+          mint: event.data.mint?.toBase58() ?? null,
+        })
+        break
+      case 'donationReceived':
+        this.statements.insertDonation.run({
+          ...context,
+          project,
+          donator: event.data.donator.toBase58(),
+          amount: event.data.amount.toString(),
+          balance: event.data.balance.toString(),
+        })
+        this.statements.updateProjectFunding.run({
+          slot: context.slot,
+          project,
+          balance: event.data.balance.toString(),
+          donatorCount: event.data.donatorCount.toNumber(),
+        })
+        break
+      case 'refundClaimed':
+        this.statements.insertRefund.run({
+          ...context,
+          project,
+          donator: event.data.donator.toBase58(),
+          amount: event.data.amount.toString(),
+        })
+        this.statements.updateProjectFunding.run({
+          slot: context.slot,
+          project,
+          balance: event.data.balance.toString(),
+          donatorCount: event.data.remainingDonators.toNumber(),
+        })
+        break
+      case 'statusChanged': {
+        const status = getStatusVariant(event.data.status)
+        this.statements.insertStatusChange.run({
+          ...context,
+          project,
+          previousStatus: getStatusVariant(event.data.previousStatus),
+          status,
+        })
+        this.statements.updateProjectStatus.run({ slot: context.slot, project, status })
+        break
+      }
+      case 'fundsWithdrawn':
+        this.statements.updateProjectWithdrawn.run({
+          slot: context.slot,
+          project,
+          amount: event.data.amount.toString(),
+        })
+        break
+      case 'projectClosed':
+        this.statements.updateProjectClosed.run({ signature: context.signature, slot: context.slot, project })
+        break
+    }
+  }
+}
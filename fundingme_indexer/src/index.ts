@@ -0,0 +1,45 @@
+import { setTimeout } from 'node:timers/promises'
+import { Connection } from '@solana/web3.js'
+import { getReadonlyClient } from '../../fundingme_frontend/src/lib/anchor/setup'
+import { getConfig } from './config'
+import { IndexerStore } from './database'
+import { FundingMeIndexer } from './indexer'
+
+// Keeps syncing every FUNDINGME_POLL_INTERVAL ms until interrupted, `--once` catches up and exits
+async function main() {
+  const config = getConfig()
+  const once = process.argv.includes('--once')
+
+  const { program } = getReadonlyClient(new Connection(config.rpcUrl, config.commitment))
+  const store = new IndexerStore(config.databasePath)
+  const indexer = new FundingMeIndexer(program, store, config)
+  console.log(`Indexing program ${program.programId} from ${config.rpcUrl} into ${config.databasePath}`)
+
+  // The checkpoint is written with every transaction, stopping between two syncs loses nothing
+  const stopped = new AbortController()
+  process.once('SIGINT', () => stopped.abort())
+  process.once('SIGTERM', () => stopped.abort())
+
+  try {
+    do {
+      try {
+        const stored = await indexer.sync()
+        if (stored > 0 || once) {
+          console.log(`Indexed ${stored} transactions, checkpoint at slot ${store.getCheckpoint(program.programId)}`)
+        }
+      } catch (error) {
+        if (once) throw error
+        // The next sync resumes from the checkpoint
+        console.error('Sync failed:', error)
+      }
+      if (!once) await setTimeout(config.pollInterval, undefined, { signal: stopped.signal }).catch(() => {})
+    } while (!once && !stopped.signal.aborted)
+  } finally {
+    store.close()
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
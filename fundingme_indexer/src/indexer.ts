@@ -0,0 +1,104 @@
+import { Program } from '@coral-xyz/anchor'
+import { ConfirmedSignatureInfo, Finality, VersionedTransactionResponse } from '@solana/web3.js'
+import { parseProjectEvents } from '../../fundingme_frontend/src/lib/anchor/events'
+import { decodeProgramInstructions } from '../../fundingme_frontend/src/lib/anchor/instructions'
+import { FundingmeDapp } from '../../fundingme_frontend/src/lib/anchor/types'
+import { IndexedTransaction, IndexerStore } from './database'
+
+// Largest page getSignaturesForAddress returns
+const SIGNATURES_PAGE_SIZE = 1000
+
+export type IndexerOptions = {
+  commitment: Finality
+  batchSize: number
+}
+
+export function toIndexedTransaction(
+  program: Program<FundingmeDapp>,
+  signature: string,
+  transaction: VersionedTransactionResponse,
+): IndexedTransaction {
+  return {
+    signature,
+    slot: transaction.slot,
+    blockTime: transaction.blockTime ?? null,
+    instructions: decodeProgramInstructions(program, transaction),
+    events: parseProjectEvents(program, transaction.meta?.logMessages ?? []),
+  }
+}
+
+// Replays the transactions of the FundingMe program in the order they were executed. History is read from the
+// transactions of the program id rather than from project accounts, so projects closed by withdraw or
+// close_failed_project keep their history.
+export class FundingMeIndexer {
+  constructor(
+    private readonly program: Program<FundingmeDapp>,
+    private readonly store: IndexerStore,
+    private readonly options: IndexerOptions,
+  ) {}
+
+  // Indexes every program transaction after the checkpoint slot, returns how many transactions were stored
+  async sync(): Promise<number> {
+    const { connection } = this.program.provider
+    const { programId } = this.program
+    const signatures = await this.fetchSignaturesAfter(this.store.getCheckpoint(programId))
+
+    let stored = 0
+    for (let start = 0; start < signatures.length; start += this.options.batchSize) {
+      const batch = signatures.slice(start, start + this.options.batchSize)
+      // Failed transactions changed nothing, their logs may still hold events emitted before the failure
+      const succeeded = batch.filter((info) => !info.err)
+      const transactions =
+        succeeded.length > 0
+          ? await connection.getTransactions(
+              succeeded.map((info) => info.signature),
+              { commitment: this.options.commitment, maxSupportedTransactionVersion: 0 },
+            )
+          : []
+      const bySignature = new Map(succeeded.map((info, index) => [info.signature, transactions[index]]))
+
+      batch.forEach((info, index) => {
+        // Several transactions can share a slot, the checkpoint only moves past a slot once all of them are stored
+        const next = signatures[start + index + 1]
+        const checkpoint = next && next.slot === info.slot ? info.slot - 1 : info.slot
+
+        if (info.err) {
+          this.store.setCheckpoint(programId, checkpoint)
+          return
+        }
+        const transaction = bySignature.get(info.signature)
+        if (!transaction) {
+          throw new Error(`Transaction ${info.signature} is not available, the RPC may not keep the full history`)
+        }
+        this.store.saveTransaction(
+          programId,
+          toIndexedTransaction(this.program, info.signature, transaction),
+          checkpoint,
+        )
+        stored++
+      })
+    }
+    return stored
+  }
+
+  // Program transactions in slots after `checkpoint` (all of them for a new database), oldest first
+  private async fetchSignaturesAfter(checkpoint: number | null): Promise<ConfirmedSignatureInfo[]> {
+    const { connection } = this.program.provider
+    const signatures: ConfirmedSignatureInfo[] = []
+    let before: string | undefined
+
+    // Pages go from the newest transaction backwards, stop at the first page that reaches the checkpoint
+    for (;;) {
+      const page = await connection.getSignaturesForAddress(
+        this.program.programId,
+        { before, limit: SIGNATURES_PAGE_SIZE },
+        this.options.commitment,
+      )
+      const newer = checkpoint === null ? page : page.filter((info) => info.slot > checkpoint)
+      signatures.push(...newer)
+      if (page.length < SIGNATURES_PAGE_SIZE || newer.length < page.length) break
+      before = page[page.length - 1].signature
+    }
+    return signatures.reverse()
+  }
+}